@@ -0,0 +1,26 @@
+import { SpendDashboard } from '@/components/spend-dashboard';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: '비용 현황',
+  description: 'VEO Dashboard의 일별, 사용자별, 모델별 예상 생성 비용을 확인할 수 있는 관리자 전용 페이지입니다.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function AdminCostsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">비용 현황</h1>
+        <p className="text-gray-600 mt-2">
+          비디오 생성과 번역에 사용된 예상 비용을 확인할 수 있습니다.
+        </p>
+      </div>
+
+      <SpendDashboard />
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
+import Link from 'next/link';
+import { DollarSign } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { VideoSyncStatus } from '@/components/video-sync-status';
 import { AdminControlPanel } from '@/components/admin-control-panel';
+import { UserRoleManager } from '@/components/user-role-manager';
+import { GenerationQuotaSettings } from '@/components/generation-quota-settings';
 import type { Metadata } from 'next';
 
 export const metadata: Metadata = {
@@ -37,6 +42,12 @@ export default function AdminPage() {
         <p className="text-gray-600 mt-2">
           시스템 관리 및 비디오 동기화 상태를 확인할 수 있습니다.
         </p>
+        <Button variant="outline" size="sm" className="mt-4" asChild>
+          <Link href="/admin/costs" className="flex items-center space-x-2">
+            <DollarSign className="h-4 w-4" />
+            <span>비용 현황 보기</span>
+          </Link>
+        </Button>
       </div>
       
       <div className="space-y-8">
@@ -46,6 +57,12 @@ export default function AdminPage() {
         <div className="flex justify-center">
           <AdminControlPanel />
         </div>
+        <div className="flex justify-center">
+          <UserRoleManager />
+        </div>
+        <div className="flex justify-center">
+          <GenerationQuotaSettings />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,26 @@
+import { VideoAnalyticsDashboard } from '@/components/video-analytics-dashboard';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: '생성 통계',
+  description: 'VEO Dashboard의 일별 생성 추이, 성공률, 모델별 생성 시간, 오류 유형을 확인할 수 있는 페이지입니다.',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function AnalyticsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="text-center mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">생성 통계</h1>
+        <p className="text-gray-600 mt-2">
+          기간별 비디오 생성 추이와 성공률, 모델별 생성 시간, 오류 유형을 확인할 수 있습니다.
+        </p>
+      </div>
+
+      <VideoAnalyticsDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getDatabase } from '@/lib/database';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError, parseDateRangeParams } from '@/lib/api-utils';
+import { COST_CONFIG } from '@/lib/constants';
+import { SpendReport } from '@/types';
+
+// GET /api/admin/costs - Estimated spend per day, user and model (admin only)
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/admin/costs';
+
+  try {
+    const user = await requireRole(request, 'admin');
+    const { from, to } = parseDateRangeParams(request.nextUrl.searchParams, COST_CONFIG.DEFAULT_REPORT_DAYS, COST_CONFIG.MAX_REPORT_DAYS);
+    Logger.apiStart(route, { userEmail: user.email, from: from.toISOString(), to: to.toISOString() });
+
+    const db = await getDatabase();
+    const breakdown = await db.getGenerationCostBreakdown(from.toISOString(), to.toISOString());
+
+    const report: SpendReport = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totalCostUsd: breakdown.users.reduce((total, row) => total + row.cost_usd, 0),
+      daily: breakdown.daily.map(row => ({
+        day: row.day,
+        videoCostUsd: row.video_cost_usd,
+        translationCostUsd: row.translation_cost_usd
+      })),
+      users: breakdown.users.map(row => ({
+        userEmail: row.user_email,
+        costUsd: row.cost_usd,
+        videoCount: row.video_count,
+        translationCount: row.translation_count
+      })),
+      models: breakdown.models.map(row => ({
+        model: row.model,
+        kind: row.kind,
+        costUsd: row.cost_usd,
+        callCount: row.call_count
+      }))
+    };
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { totalCostUsd: report.totalCostUsd, days: report.daily.length });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Cost report request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch cost report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getDatabase } from '@/lib/database';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { GenerationQuotaLimits } from '@/types';
+
+const QUOTA_FIELDS: (keyof GenerationQuotaLimits)[] = ['userDaily', 'userMonthly', 'globalMonthly'];
+
+// GET /api/admin/quotas - Current generation quota limits (admin only)
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/admin/quotas';
+
+  try {
+    const user = await requireRole(request, 'admin');
+    Logger.apiStart(route, { userEmail: user.email });
+
+    const db = await getDatabase();
+    const limits = await db.getGenerationQuotaLimits();
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { ...limits });
+
+    return NextResponse.json(limits);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Quota limits request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch quota limits' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/quotas - Replace the generation quota limits (null for unlimited, admin only)
+export async function PUT(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/admin/quotas';
+
+  try {
+    const user = await requireRole(request, 'admin');
+
+    const body = await request.json();
+    Logger.apiStart(route, { ...body, userEmail: user.email });
+
+    const invalidField = QUOTA_FIELDS.find(field => {
+      const value = body[field];
+      return value !== null && value !== undefined && (!Number.isInteger(value) || value < 0);
+    });
+    if (invalidField) {
+      return NextResponse.json(
+        { error: `${invalidField} must be a non-negative integer or null` },
+        { status: 400 }
+      );
+    }
+
+    const limits: GenerationQuotaLimits = {
+      userDaily: body.userDaily ?? null,
+      userMonthly: body.userMonthly ?? null,
+      globalMonthly: body.globalMonthly ?? null
+    };
+
+    const db = await getDatabase();
+    await db.setGenerationQuotaLimits(limits);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { ...limits });
+
+    return NextResponse.json(limits);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Quota limits update rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to update quota limits' },
+      { status: 500 }
+    );
+  }
+}
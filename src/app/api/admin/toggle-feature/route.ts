@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
 import { isVideoGenerationEnabled as getVideoGenerationStatus, setVideoGenerationEnabled } from '@/lib/database';
 
 export async function POST(request: NextRequest) {
@@ -7,18 +9,12 @@ export async function POST(request: NextRequest) {
   const route = '/api/admin/toggle-feature';
   
   try {
-    const { adminKey, action } = await request.json();
+    // 관리자 권한 확인
+    const user = await requireRole(request, 'admin');
 
-    Logger.apiStart(route, { action });
+    const { action } = await request.json();
 
-    // 관리자 키 검증
-    if (!adminKey || adminKey !== process.env.ADMIN_SECRET_KEY) {
-      Logger.warn('Invalid admin key provided', { route });
-      return NextResponse.json(
-        { error: 'Invalid admin key' },
-        { status: 401 }
-      );
-    }
+    Logger.apiStart(route, { action, userEmail: user.email });
 
     // 액션에 따른 기능 토글
     if (action === 'enable') {
@@ -50,6 +46,11 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Feature toggle request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getDatabase } from '@/lib/database';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { USER_ROLES, UserRole } from '@/types';
+
+// GET /api/admin/users - List users with their roles
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/admin/users';
+
+  try {
+    await requireRole(request, 'admin');
+    Logger.apiStart(route);
+
+    const db = await getDatabase();
+    const users = await db.getUsers();
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { count: users.length });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('User list request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/admin/users - Change a user's role
+export async function PATCH(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/admin/users';
+
+  try {
+    const admin = await requireRole(request, 'admin');
+
+    const { userId, role } = await request.json();
+    Logger.apiStart(route, { userId, role, adminEmail: admin.email });
+
+    if (typeof userId !== 'number' || !USER_ROLES.includes(role as UserRole)) {
+      Logger.warn('Role update request has invalid parameters', { route, userId, role });
+      return NextResponse.json(
+        { error: `User ID and a role (${USER_ROLES.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    // 관리자가 스스로 권한을 잃어 관리자가 없어지는 것을 방지
+    if (userId === admin.id) {
+      Logger.warn('Admin attempted to change own role', { route, userId: String(userId) });
+      return NextResponse.json(
+        { error: '자신의 역할은 변경할 수 없습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const user = await db.updateUserRole(userId, role);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { userId: user.id, role: user.role });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Role update request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to update user role' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { completeLogin, getSafeRedirectPath, setSessionCookie } from '@/lib/auth';
+import { AUTH_CONFIG } from '@/lib/constants';
+
+// GET /api/auth/callback?token=... - Exchange a magic link token for a session cookie
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/auth/callback';
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+
+  try {
+    Logger.apiStart(route);
+
+    const token = request.nextUrl.searchParams.get('token');
+    const login = token ? await completeLogin(token) : null;
+
+    if (!login) {
+      Logger.warn('Login link is invalid or expired', { route });
+      return NextResponse.redirect(new URL(`${AUTH_CONFIG.LOGIN_PATH}?error=invalid_link`, baseUrl));
+    }
+
+    const response = NextResponse.redirect(new URL(getSafeRedirectPath(request.nextUrl.searchParams.get('next')), baseUrl));
+    setSessionCookie(response, login.cookieValue, login.expiresAt);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { userId: login.user.id, email: login.user.email });
+
+    return response;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.redirect(new URL(`${AUTH_CONFIG.LOGIN_PATH}?error=login_failed`, baseUrl));
+  }
+}
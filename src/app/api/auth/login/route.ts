@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { isDevLoginLinkExposed, normalizeEmail, sendLoginLink } from '@/lib/auth';
+
+// POST /api/auth/login - Send a magic login link to the given email
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/auth/login';
+
+  try {
+    const { email, next } = await request.json();
+    Logger.apiStart(route, { email });
+
+    const normalizedEmail = typeof email === 'string' ? normalizeEmail(email) : null;
+    if (!normalizedEmail) {
+      Logger.warn('Login request has invalid email', { route, email });
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    const loginUrl = await sendLoginLink(normalizedEmail, typeof next === 'string' ? next : undefined);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { email: normalizedEmail });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Login link sent',
+      // 개발용 대체 제공자에서는 메일 대신 링크를 바로 전달
+      ...(isDevLoginLinkExposed() ? { devLoginUrl: loginUrl } : {})
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to send login link' },
+      { status: 500 }
+    );
+  }
+}
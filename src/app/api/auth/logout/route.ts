@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { clearSessionCookie, destroySession } from '@/lib/auth';
+
+// POST /api/auth/logout - Revoke the current session and clear its cookie
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/auth/logout';
+
+  try {
+    Logger.apiStart(route);
+
+    await destroySession(request);
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration);
+
+    return response;
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to log out' },
+      { status: 500 }
+    );
+  }
+}
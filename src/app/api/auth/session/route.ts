@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getSessionUser } from '@/lib/auth';
+
+// GET /api/auth/session - Return the signed-in user, or null without a valid session
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/auth/session';
+
+  try {
+    const user = await getSessionUser(request);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { userId: user?.id });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to get session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { VideoGenerationService } from '@/lib/ai';
 import { Logger } from '@/lib/logger';
-import { updateVideoRecord, isVideoGenerationEnabled } from '@/lib/database';
-import { validateResolution } from '@/lib/video-utils';
+import { updateActiveVideoRecord, claimPendingVideoRecord, getVideoRecord, isVideoGenerationEnabled } from '@/lib/database';
+import { enqueueVideoGeneration } from '@/lib/video-job-worker';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { VideoGenerationService } from '@/lib/ai';
+import { reserveGenerationQuota } from '@/lib/generation-quota';
+import { API_CONFIG } from '@/lib/constants';
 import { AIModelConfig } from '@/types';
 
 // 비디오 생성 기능 상태 확인 함수
@@ -15,34 +19,11 @@ async function checkVideoGenerationStatus(): Promise<boolean> {
   }
 }
 
-async function translateText(koreanText: string, config: AIModelConfig, videoId: string): Promise<string> {
-  Logger.step('Starting translation process', { videoId, model: config.translationModel });
-  
-  const translateResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/translate`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ 
-      koreanText,
-      model: config.translationModel,
-      promptConfig: config.translationPromptConfig,
-    }),
-  });
-
-  if (!translateResponse.ok) {
-    const errorText = await translateResponse.text();
-    Logger.error('Translation API call failed', { videoId, status: translateResponse.status, error: errorText });
-    throw new Error(`Translation failed: ${errorText}`);
-  }
-
-  const data = await translateResponse.json();
-  Logger.step('Translation process completed', { videoId, englishPrompt: data.englishText.substring(0, 100) + '...' });
-  return data.englishText;
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   const route = '/api/generate-video';
   let videoId: string | null = null;
+  let claimed = false;
   
   try {
     // 1. 가장 먼저 비디오 생성 기능 활성화 상태 확인
@@ -55,12 +36,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 2. 요청 데이터 파싱
+    // 2. 생성 권한 확인 (작성자 이메일은 요청 본문이 아닌 세션에서 결정)
+    const user = await requireRole(request, 'creator');
+    const userEmail = user.email;
+
+    // 3. 요청 데이터 파싱
     const { 
       videoId: reqVideoId,
       koreanPrompt,
       config,
-      userEmail
+      parentVideoId
     } = await request.json();
     
     videoId = reqVideoId;
@@ -70,68 +55,160 @@ export async function POST(request: NextRequest) {
       koreanPrompt: koreanPrompt?.substring(0, 100) + '...',
       userEmail,
       model: config.videoGenerationModel,
+      parentVideoId,
     });
 
-    // 3. 필수 파라미터 검증
-    if (!koreanPrompt || !videoId || !config || !userEmail) {
+    // 4. 필수 파라미터 검증
+    if (!koreanPrompt || !videoId || !config) {
       Logger.warn('Video generation request missing required parameters', { 
         route, 
         videoId, 
         hasPrompt: !!koreanPrompt, 
-        hasConfig: !!config,
-        hasUserEmail: !!userEmail
+        hasConfig: !!config
       });
       return NextResponse.json(
-        { error: 'Video ID, Korean prompt, user email, and config are required' },
+        { error: 'Video ID, Korean prompt, and config are required' },
         { status: 400 }
       );
     }
 
-    // 4. Translate Korean prompt to English
-    const englishPrompt = await translateText(koreanPrompt, config, videoId);
-
-    // 5. Update database status to generating and save English prompt
-    await updateVideoRecord(videoId, { 
-      status: 'generating',
-      english_prompt: englishPrompt
-    });
-    Logger.step('Database updated with translated prompt and generating status', { videoId });
+    // 5. 세션 사용자의 대기 중인 비디오를 원자적으로 선점 (이미 시작된 비디오의 설정과 상태를 덮어쓰지 않도록 함)
+    const videoRecord = await claimPendingVideoRecord(videoId, userEmail);
+    if (!videoRecord) {
+      const existing = await getVideoRecord(videoId);
+      if (!existing || existing.user_email !== userEmail) {
+        Logger.warn('Video record does not belong to the session user', { route, videoId, userEmail });
+        return NextResponse.json(
+          { error: 'Video not found' },
+          { status: 404 }
+        );
+      }
+      Logger.warn('Video generation already started for this video', { route, videoId, status: existing.status });
+      return NextResponse.json(
+        { error: 'Video generation is already in progress for this video' },
+        { status: 409 }
+      );
+    }
+    claimed = true;
+
+    // 6. 연장할 원본 비디오 확인 (완료되어 GCS에 남아 있는 비디오만 연장 가능)
+    if (parentVideoId) {
+      const parentVideo = await getVideoRecord(parentVideoId);
+      if (!parentVideo || parentVideo.status !== 'completed' || !parentVideo.gcs_uri) {
+        Logger.warn('Video extension source is not available', { route, videoId, parentVideoId });
+        await updateActiveVideoRecord(videoId, {
+          status: 'error',
+          error_message: 'Source video is not available for extension'
+        });
+        return NextResponse.json(
+          { error: 'Source video must be a completed video stored in GCS' },
+          { status: 400 }
+        );
+      }
+    }
 
-    // 6. Start background processing (don't await)
-    processVideoGeneration(
-      videoId, 
-      englishPrompt, 
-      config
-    ).catch(error => {
-      Logger.error('Background video generation failed to start', {
-        videoId,
-        error: error instanceof Error ? error.message : error
+    // 7. 모델별 파라미터 검증 (워커에서 재시도하기 전에 잘못된 요청을 거부)
+    const validation = VideoGenerationService.validateModelParameters(
+      config.videoGenerationModel,
+      config.durationSeconds,
+      config.generateAudio,
+      config.enhancePrompt,
+      config.aspectRatio || '16:9',
+      !!config.firstFrameImage,
+      !!config.lastFrameImage,
+      !!parentVideoId,
+      config.numberOfVideos || 1,
+      config.seed
+    );
+    if (!validation.isValid) {
+      Logger.warn('Video generation request has invalid parameters', { route, videoId, errors: validation.errors });
+      await updateActiveVideoRecord(videoId, {
+        status: 'error',
+        error_message: `Invalid parameters: ${validation.errors.join(', ')}`
       });
+      return NextResponse.json(
+        { error: `Invalid parameters: ${validation.errors.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // 8. 생성 한도 확인과 사용량 기록 (요청한 생성 개수만큼 남아 있어야 함)
+    try {
+      await reserveGenerationQuota(userEmail, [{ videoId, generations: config.numberOfVideos || 1 }]);
+    } catch (quotaError) {
+      if (quotaError instanceof ApiError) {
+        await updateActiveVideoRecord(videoId, {
+          status: 'error',
+          error_message: quotaError.message
+        });
+      }
+      throw quotaError;
+    }
+
+    // 9. 시드가 없으면 무작위 시드를 지정해 같은 설정으로 다시 생성할 수 있도록 함
+    const generationConfig: AIModelConfig = {
+      ...config,
+      seed: config.seed ?? Math.floor(Math.random() * (API_CONFIG.VIDEO_GENERATION.MAX_SEED + 1))
+    };
+
+    // 10. 선점한 비디오 레코드에 생성 설정과 입력 이미지, 원본 비디오, 생성 그룹을 저장 (그 사이 취소되었으면 중단)
+    const isGroupGeneration = (generationConfig.numberOfVideos || 1) > 1;
+    const configured = await updateActiveVideoRecord(videoId, {
+      source_image_url: generationConfig.firstFrameImage?.url,
+      last_frame_image_url: generationConfig.lastFrameImage?.url,
+      parent_video_id: parentVideoId,
+      generation_group_id: isGroupGeneration ? videoId : undefined,
+      generation_config: generationConfig
     });
+    if (!configured) {
+      Logger.warn('Video was cancelled before its generation job was queued', { route, videoId });
+      return NextResponse.json(
+        { error: 'Video is no longer pending generation' },
+        { status: 409 }
+      );
+    }
+
+    // 11. Enqueue durable generation job (translation, generation and processing run in the worker)
+    const enqueued = await enqueueVideoGeneration(videoId, { koreanPrompt, config: generationConfig });
+    if (!enqueued) {
+      Logger.warn('Video generation job already active', { route, videoId });
+      return NextResponse.json(
+        { error: 'Video generation is already in progress for this video' },
+        { status: 409 }
+      );
+    }
+    Logger.step('Video generation job enqueued', { videoId });
 
-    // 7. Return immediate success response
+    // 12. Return immediate success response
     const duration = Date.now() - startTime;
     Logger.apiSuccess(route, duration, {
       videoId,
-      status: 'generating',
+      status: 'queued',
       totalDuration: `${duration}ms`,
-      model: config.videoGenerationModel
+      model: config.videoGenerationModel,
+      seed: generationConfig.seed
     });
 
     return NextResponse.json({ 
       success: true, 
       videoId,
-      status: 'generating',
-      message: 'Video generation workflow started successfully'
+      status: 'queued',
+      seed: generationConfig.seed,
+      message: 'Video generation job queued successfully'
     });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video generation request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
     // If an error occurs, update the video record status to 'error'
-    if (videoId) {
-      await updateVideoRecord(videoId, {
+    if (videoId && claimed) {
+      await updateActiveVideoRecord(videoId, {
         status: 'error',
         error_message: error instanceof Error ? `Workflow start failed: ${error.message}` : 'Unknown error during startup'
       });
@@ -143,142 +220,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Background processing function
-async function processVideoGeneration(videoId: string, englishPrompt: string, config: AIModelConfig, retryCount: number = 0) {
-  const startTime = Date.now();
-  const maxRetries = 3;
-  
-  try {
-    Logger.step('Background video generation started', { 
-      videoId,
-      promptLength: englishPrompt.length,
-      preview: englishPrompt.substring(0, 100) + '...',
-      outputUri: process.env.GOOGLE_CLOUD_OUTPUT_GCS_URI,
-      model: config.videoGenerationModel,
-      durationSeconds: config.durationSeconds,
-      enhancePrompt: config.enhancePrompt,
-      generateAudio: config.generateAudio,
-      hasNegativePrompt: !!config.negativePrompt,
-      retryCount,
-      maxRetries
-    });
-
-    const videos = await VideoGenerationService.generateVideo(
-      englishPrompt,
-      process.env.GOOGLE_CLOUD_OUTPUT_GCS_URI,
-      config.videoGenerationModel,
-      config.durationSeconds,
-      config.enhancePrompt,
-      config.generateAudio,
-      config.negativePrompt
-    );
-
-    if (!videos || videos.length === 0) {
-      throw new Error('No videos generated from API');
-    }
-
-    const generatedVideo = videos[0];
-    const gcsUri = generatedVideo?.video?.uri;
-    
-    if (!gcsUri) {
-      throw new Error('No video URI returned from generation API');
-    }
-
-    // Update status to processing
-    await updateVideoRecord(videoId, { status: 'processing' });
-
-    // Process the video (download and create thumbnail)
-    const processResponse = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/process-video`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        gcsUri: gcsUri,
-        videoId: videoId
-      }),
-    });
-
-    if (!processResponse.ok) {
-      throw new Error(`Video processing failed: ${processResponse.status}`);
-    }
-
-    const processResult = await processResponse.json();
-    const duration = Date.now() - startTime;
-
-    // Update with final results (해상도 값 검증 후 저장)
-    const validResolution = validateResolution(processResult.resolution, videoId);
-    
-    if (processResult.resolution && !validResolution) {
-      Logger.warn('Invalid resolution from video processing, not saving to DB', {
-        videoId,
-        invalidResolution: processResult.resolution
-      });
-    }
-    
-    await updateVideoRecord(videoId, {
-      status: 'completed',
-      video_url: processResult.videoUrl,
-      thumbnail_url: processResult.thumbnailUrl,
-      duration: processResult.duration || 8,
-      resolution: validResolution, // 검증된 해상도만 저장
-      completed_at: new Date().toISOString(),
-    });
-
-    Logger.info('Background video generation completed successfully', {
-      videoId,
-      totalDuration: `${duration}ms`,
-      videoUrl: processResult.videoUrl,
-      thumbnailUrl: processResult.thumbnailUrl,
-      actualDuration: processResult.duration,
-      resolution: processResult.resolution,
-      retryCount,
-      success: true
-    });
-
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    // Retry logic
-    if (retryCount < maxRetries) {
-      const delayMs = Math.pow(2, retryCount) * 5000; // 5s, 10s, 20s
-      
-      Logger.warn('Background video generation failed, retrying', {
-        videoId,
-        totalDuration: `${duration}ms`,
-        error: errorMessage,
-        retryCount,
-        maxRetries,
-        nextRetryIn: `${delayMs}ms`
-      });
-
-      // Schedule retry
-      setTimeout(() => {
-        processVideoGeneration(videoId, englishPrompt, config, retryCount + 1).catch(retryError => {
-          Logger.error('Retry also failed', {
-            videoId,
-            retryCount: retryCount + 1,
-            error: retryError instanceof Error ? retryError.message : retryError
-          });
-        });
-      }, delayMs);
-      
-      return; // Don't mark as error yet
-    }
-    
-    Logger.error('Background video generation failed after all retries', {
-      videoId,
-      totalDuration: `${duration}ms`,
-      error: errorMessage,
-      retryCount,
-      maxRetries,
-      success: false
-    });
-
-    // Update database with error only after all retries exhausted
-    await updateVideoRecord(videoId, {
-      status: 'error',
-      error_message: `${errorMessage} (after ${retryCount} retries)`,
-    });
-  }
-} 
\ No newline at end of file
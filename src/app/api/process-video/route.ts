@@ -4,12 +4,17 @@ import { updateVideoRecord } from '@/lib/database';
 import { syncNewVideo } from '@/lib/video-sync';
 import { validateResolution } from '@/lib/video-utils';
 import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   const route = '/api/process-video';
   
   try {
+    // 수동 후처리는 관리자만 가능 (일반 생성은 워커가 처리)
+    await requireRole(request, 'admin');
+
     const { gcsUri, videoId } = await request.json();
 
     Logger.apiStart(route, { 
@@ -82,6 +87,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(responseData);
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video processing request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getDatabase } from '@/lib/database';
+import { requireRole } from '@/lib/auth';
+import { canManagePromptTemplate } from '@/lib/permissions';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { toPromptTemplate, validatePromptTemplateInput } from '@/lib/prompt-templates';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/prompt-templates/[id] - Update a template (owner or admin)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const startTime = Date.now();
+  const { id } = await params;
+  const route = `/api/prompt-templates/${id}`;
+
+  try {
+    const user = await requireRole(request, 'creator');
+
+    const body = await request.json();
+    const { name, content, description, isShared } = body;
+    Logger.apiStart(route, { id, updateFields: Object.keys(body), userEmail: user.email });
+
+    const validationError = validatePromptTemplateInput(body, true);
+    if (validationError) {
+      Logger.warn('Prompt template request has invalid parameters', { route, error: validationError });
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const existing = await db.getPromptTemplate(Number(id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    // 본인 템플릿만 수정 가능 (관리자는 모든 템플릿 수정 가능)
+    if (!canManagePromptTemplate(user, existing.owner_email)) {
+      Logger.warn('User attempted to update a prompt template owned by another user', { route, userEmail: user.email });
+      return NextResponse.json(
+        { error: '다른 사용자의 템플릿은 수정할 수 없습니다.' },
+        { status: 403 }
+      );
+    }
+
+    const template = await db.updatePromptTemplate(existing.id, {
+      name: typeof name === 'string' ? name.trim() : undefined,
+      content: typeof content === 'string' ? content.trim() : undefined,
+      description: typeof description === 'string' ? description.trim() : undefined,
+      is_shared: typeof isShared === 'boolean' ? isShared : undefined
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { id: template.id });
+
+    return NextResponse.json(toPromptTemplate(template));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Prompt template update rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to update prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/prompt-templates/[id] - Delete a template (owner or admin)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const startTime = Date.now();
+  const { id } = await params;
+  const route = `/api/prompt-templates/${id}`;
+
+  try {
+    const user = await requireRole(request, 'creator');
+    Logger.apiStart(route, { id, userEmail: user.email });
+
+    const db = await getDatabase();
+    const existing = await db.getPromptTemplate(Number(id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    // 본인 템플릿만 삭제 가능 (관리자는 모든 템플릿 삭제 가능)
+    if (!canManagePromptTemplate(user, existing.owner_email)) {
+      Logger.warn('User attempted to delete a prompt template owned by another user', { route, userEmail: user.email });
+      return NextResponse.json(
+        { error: '다른 사용자의 템플릿은 삭제할 수 없습니다.' },
+        { status: 403 }
+      );
+    }
+
+    await db.deletePromptTemplate(existing.id);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { id: existing.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Prompt template deletion rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to delete prompt template' },
+      { status: 500 }
+    );
+  }
+}
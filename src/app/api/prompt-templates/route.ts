@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getDatabase } from '@/lib/database';
+import { requireRole, requireSessionUser } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { toPromptTemplate, validatePromptTemplateInput } from '@/lib/prompt-templates';
+
+// GET /api/prompt-templates - List the user's own templates and templates shared by others
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/prompt-templates';
+
+  try {
+    const user = await requireSessionUser(request);
+    Logger.apiStart(route, { userEmail: user.email });
+
+    const db = await getDatabase();
+    const templates = await db.getPromptTemplates(user.email);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { count: templates.length });
+
+    return NextResponse.json({ templates: templates.map(toPromptTemplate) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Prompt template list request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/prompt-templates - Create a template owned by the current user
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/prompt-templates';
+
+  try {
+    const user = await requireRole(request, 'creator');
+
+    const body = await request.json();
+    const { name, content, description, isShared } = body;
+    Logger.apiStart(route, { name, isShared, userEmail: user.email });
+
+    const validationError = validatePromptTemplateInput(body);
+    if (validationError) {
+      Logger.warn('Prompt template request has invalid parameters', { route, error: validationError });
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const template = await db.createPromptTemplate({
+      name: name.trim(),
+      content: content.trim(),
+      description: description?.trim() || undefined,
+      owner_email: user.email,
+      is_shared: isShared === true
+    });
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { id: template.id });
+
+    return NextResponse.json(toPromptTemplate(template), { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Prompt template creation rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to create prompt template' },
+      { status: 500 }
+    );
+  }
+}
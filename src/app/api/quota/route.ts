@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { requireSessionUser } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { getGenerationQuota } from '@/lib/generation-quota';
+
+// GET /api/quota - Remaining generations for the session user (daily, monthly and global budget)
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/quota';
+
+  try {
+    const user = await requireSessionUser(request);
+    Logger.apiStart(route, { userEmail: user.email });
+
+    const quota = await getGenerationQuota(user.email);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { remaining: quota.remaining });
+
+    return NextResponse.json(quota);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Quota request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch generation quota' },
+      { status: 500 }
+    );
+  }
+}
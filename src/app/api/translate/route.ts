@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TranslationService } from '@/lib/ai';
 import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
 import { TranslationPromptConfig } from '@/types';
 import { isVideoGenerationEnabled } from '@/lib/database';
+import { recordTranslationCost } from '@/lib/generation-cost';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   const route = '/api/translate';
   
   try {
+    // 생성 권한 확인
+    const user = await requireRole(request, 'creator');
+
     // 1. 가장 먼저 비디오 생성 기능 활성화 상태 확인
     const isGenerationEnabled = await isVideoGenerationEnabled();
     if (!isGenerationEnabled) {
@@ -50,11 +56,13 @@ export async function POST(request: NextRequest) {
       userPromptTemplate: promptConfig?.userPromptTemplate?.substring(0, 50) || 'default'
     });
 
-    const englishText = await TranslationService.translateKoreanToEnglish(
+    const translation = await TranslationService.translateKoreanToEnglish(
       koreanText, 
       model,
       promptConfig as TranslationPromptConfig
     );
+    await recordTranslationCost(model, translation, user.email);
+    const englishText = translation.text;
 
     const duration = Date.now() - startTime;
     const responseData = { koreanText, englishText, model, promptConfig };
@@ -68,6 +76,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(responseData);
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Translation request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { isVideoGenerationEnabled } from '@/lib/database';
+import { saveUploadedImage } from '@/lib/video-server-utils';
+import { UPLOAD_CONFIG } from '@/lib/constants';
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/upload-image';
+
+  try {
+    // 생성 권한 확인
+    await requireRole(request, 'creator');
+
+    // 1. 가장 먼저 비디오 생성 기능 활성화 상태 확인
+    const isGenerationEnabled = await isVideoGenerationEnabled();
+    if (!isGenerationEnabled) {
+      Logger.warn('Image upload blocked - video generation is currently disabled by admin', { route });
+      return NextResponse.json(
+        { error: 'Video generation is currently disabled. Please contact admin.' },
+        { status: 503 }
+      );
+    }
+
+    // 2. 요청 데이터 파싱
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    // 3. 파일 검증
+    if (!(file instanceof File)) {
+      Logger.warn('Image upload request missing file', { route });
+      return NextResponse.json(
+        { error: 'Image file is required' },
+        { status: 400 }
+      );
+    }
+
+    Logger.apiStart(route, {
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size
+    });
+
+    if (!UPLOAD_CONFIG.ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      Logger.warn('Image upload rejected - unsupported type', { route, mimeType: file.type });
+      return NextResponse.json(
+        { error: `Unsupported image type. Allowed types: ${UPLOAD_CONFIG.ALLOWED_IMAGE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > UPLOAD_CONFIG.MAX_IMAGE_SIZE) {
+      Logger.warn('Image upload rejected - file too large', { route, size: file.size });
+      return NextResponse.json(
+        { error: `Image must be smaller than ${UPLOAD_CONFIG.MAX_IMAGE_SIZE / (1024 * 1024)}MB` },
+        { status: 413 }
+      );
+    }
+
+    // 4. 이미지 저장
+    const imageUrl = await saveUploadedImage(Buffer.from(await file.arrayBuffer()), file.type);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { imageUrl });
+
+    return NextResponse.json({
+      url: imageUrl,
+      mimeType: file.type
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Image upload request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to upload image' },
+      { status: 500 }
+    );
+  }
+}
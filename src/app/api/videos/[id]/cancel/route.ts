@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { canManageVideo } from '@/lib/permissions';
+import { ApiError, createApiError } from '@/lib/api-utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/videos/[id]/cancel - Cancel an in-progress video generation
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const startTime = Date.now();
+  const { id } = await params;
+  const route = `/api/videos/${id}/cancel`;
+
+  try {
+    const user = await requireRole(request, 'creator');
+
+    Logger.apiStart(route, { id, userEmail: user.email });
+
+    const db = await getDatabase();
+    const video = await db.getVideo(id);
+
+    if (!video) {
+      Logger.warn('Video record not found for cancellation', { route, id });
+      return NextResponse.json(
+        { error: 'Video not found' },
+        { status: 404 }
+      );
+    }
+
+    // 본인 비디오만 취소 가능 (관리자는 모든 비디오 취소 가능)
+    if (!canManageVideo(user, video.user_email)) {
+      Logger.warn('User attempted to cancel a video owned by another user', { route, id, userEmail: user.email });
+      return NextResponse.json(
+        { error: '다른 사용자의 비디오는 취소할 수 없습니다.' },
+        { status: 403 }
+      );
+    }
+
+    const cancelledVideo = await db.cancelVideo(id);
+
+    if (!cancelledVideo) {
+      Logger.warn('Video is not in progress, cannot cancel', { route, id, status: video.status });
+      return NextResponse.json(
+        { error: `Video cannot be cancelled in '${video.status}' status` },
+        { status: 409 }
+      );
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, {
+      id: cancelledVideo.id,
+      status: cancelledVideo.status
+    });
+
+    return NextResponse.json(cancelledVideo);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video cancel request rejected', { route, id, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to cancel video' },
+      { status: 500 }
+    );
+  }
+}
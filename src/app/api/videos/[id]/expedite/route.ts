@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getVideoJobWorker } from '@/lib/video-job-worker';
+import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { API_CONFIG } from '@/lib/constants';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/videos/[id]/expedite - Move a queued video generation ahead of normal-priority jobs (admin only)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const startTime = Date.now();
+  const { id } = await params;
+  const route = `/api/videos/${id}/expedite`;
+
+  try {
+    const user = await requireRole(request, 'admin');
+
+    Logger.apiStart(route, { id, userEmail: user.email });
+
+    const db = await getDatabase();
+    const video = await db.getVideo(id);
+
+    if (!video) {
+      Logger.warn('Video record not found for expedite', { route, id });
+      return NextResponse.json(
+        { error: 'Video not found' },
+        { status: 404 }
+      );
+    }
+
+    // 아직 시작되지 않은 작업만 우선 처리 가능
+    const job = await db.setVideoJobPriority(id, API_CONFIG.JOB_QUEUE.EXPEDITED_PRIORITY);
+
+    if (!job) {
+      Logger.warn('Video has no queued job, cannot expedite', { route, id, status: video.status });
+      return NextResponse.json(
+        { error: `Video cannot be expedited in '${video.status}' status` },
+        { status: 409 }
+      );
+    }
+
+    // 빈 Veo 슬롯이 있으면 다음 폴링을 기다리지 않고 바로 시작
+    getVideoJobWorker().wake();
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, {
+      id,
+      jobId: job.id,
+      priority: job.priority
+    });
+
+    return NextResponse.json({ videoId: id, priority: job.priority });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video expedite request rejected', { route, id, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to expedite video' },
+      { status: 500 }
+    );
+  }
+}
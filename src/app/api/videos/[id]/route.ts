@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
 import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { canManageVideo } from '@/lib/permissions';
+import { ApiError, createApiError } from '@/lib/api-utils';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -27,8 +30,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     const duration = Date.now() - startTime;
-    Logger.apiSuccess(route, duration, { id: video.id, status: video.status });
+    Logger.apiSuccess(route, duration, {
+      id: video.id,
+      status: video.status,
+      hasGenerationConfig: !!video.generation_config
+    });
 
+    // generation_config에는 생성에 사용된 모델과 파라미터 전체가 포함됨
     return NextResponse.json(video);
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -48,6 +56,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   const route = `/api/videos/${id}`;
   
   try {
+    // 임의 필드 수정은 관리자만 가능
+    await requireRole(request, 'admin');
+
     const updates = await request.json();
 
     Logger.apiStart(route, { 
@@ -74,6 +85,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json(updatedVideo);
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video update request rejected', { route, id, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -91,32 +107,14 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   const route = `/api/videos/${id}`;
   
   try {
-    const { deleteKey } = await request.json();
-    const adminKey = process.env.ADMIN_SECRET_KEY;
-
-    if (!adminKey) {
-      const message = 'ADMIN_SECRET_KEY is not configured on the server.';
-      Logger.error(message, { route, id });
-      return NextResponse.json(
-        { error: 'Server is not configured for deletions.' },
-        { status: 500 }
-      );
-    }
-
-    if (deleteKey !== adminKey) {
-      Logger.warn('Invalid delete key provided', { route, id });
-      return NextResponse.json(
-        { error: '잘못된 삭제 키입니다.' },
-        { status: 403 }
-      );
-    }
+    const user = await requireRole(request, 'creator');
 
-    Logger.apiStart(route, { id });
+    Logger.apiStart(route, { id, userEmail: user.email });
 
     const db = await getDatabase();
-    const deletedVideo = await db.deleteVideo(id);
+    const video = await db.getVideo(id);
 
-    if (!deletedVideo) {
+    if (!video) {
       Logger.warn('Video record not found for deletion', { route, id });
       return NextResponse.json(
         { error: 'Video not found' },
@@ -124,6 +122,17 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // 본인 비디오만 삭제 가능 (관리자는 모든 비디오 삭제 가능)
+    if (!canManageVideo(user, video.user_email)) {
+      Logger.warn('User attempted to delete a video owned by another user', { route, id, userEmail: user.email });
+      return NextResponse.json(
+        { error: '다른 사용자의 비디오는 삭제할 수 없습니다.' },
+        { status: 403 }
+      );
+    }
+
+    await db.deleteVideo(id);
+
     const duration = Date.now() - startTime;
     Logger.apiSuccess(route, duration, { id });
 
@@ -133,9 +142,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     });
   } catch (error) {
     const duration = Date.now() - startTime;
-    if (error instanceof SyntaxError) {
-      Logger.warn('DELETE request with empty or invalid JSON body', { route, id });
-      return NextResponse.json({ error: '삭제 키가 필요합니다.' }, { status: 400 });
+    if (error instanceof ApiError) {
+      Logger.warn('Video delete request rejected', { route, id, error: error.message });
+      return createApiError(error);
     }
     Logger.apiError(route, duration, error);
     
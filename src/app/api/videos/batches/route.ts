@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '@/lib/logger';
+import { getDatabase, isVideoGenerationEnabled, VideoBatchSummary } from '@/lib/database';
+import { enqueueVideoGeneration } from '@/lib/video-job-worker';
+import { requireRole, requireSessionUser } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { VideoGenerationService } from '@/lib/ai';
+import { normalizeBatchOverrides } from '@/lib/batch-import';
+import { reserveGenerationQuota } from '@/lib/generation-quota';
+import { API_CONFIG, BATCH_CONFIG } from '@/lib/constants';
+import { AIModelConfig, VideoBatch } from '@/types';
+
+function toVideoBatch(summary: VideoBatchSummary): VideoBatch {
+  return {
+    batchId: summary.batch_id,
+    userEmail: summary.user_email,
+    total: summary.total,
+    pending: summary.pending,
+    inProgress: summary.in_progress,
+    completed: summary.completed,
+    failed: summary.failed,
+    cancelled: summary.cancelled,
+    createdAt: new Date(summary.created_at).toISOString(),
+    lastCompletedAt: summary.last_completed_at ? new Date(summary.last_completed_at).toISOString() : undefined
+  };
+}
+
+// GET /api/videos/batches - Progress of the session user's recent batch imports
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/videos/batches';
+
+  try {
+    const user = await requireSessionUser(request);
+    Logger.apiStart(route, { userEmail: user.email });
+
+    const db = await getDatabase();
+    const batches = await db.getVideoBatches(user.email);
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { count: batches.length });
+
+    return NextResponse.json({ batches: batches.map(toVideoBatch) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video batch list request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch video batches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/videos/batches - Create and enqueue one video per prompt, sharing a batch id
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const route = '/api/videos/batches';
+
+  try {
+    // 1. 비디오 생성 기능 활성화 상태 확인
+    const isGenerationEnabled = await isVideoGenerationEnabled();
+    if (!isGenerationEnabled) {
+      Logger.warn('Batch submission blocked - video generation is currently disabled by admin', { route });
+      return NextResponse.json(
+        { error: 'Video generation is currently disabled. Please contact admin.' },
+        { status: 503 }
+      );
+    }
+
+    // 2. 생성 권한 확인
+    const user = await requireRole(request, 'creator');
+
+    // 3. 요청 데이터 파싱
+    const { prompts, config } = await request.json();
+
+    Logger.apiStart(route, {
+      promptCount: Array.isArray(prompts) ? prompts.length : undefined,
+      userEmail: user.email,
+      model: config?.videoGenerationModel
+    });
+
+    // 4. 필수 파라미터 검증
+    if (!Array.isArray(prompts) || prompts.length === 0 || !config) {
+      return NextResponse.json(
+        { error: 'Prompts and config are required' },
+        { status: 400 }
+      );
+    }
+    if (prompts.length > BATCH_CONFIG.MAX_PROMPTS) {
+      return NextResponse.json(
+        { error: `A batch can contain at most ${BATCH_CONFIG.MAX_PROMPTS} prompts` },
+        { status: 400 }
+      );
+    }
+
+    // 5. 행별 설정을 합치고 모두 검증한 뒤에만 생성 (일부만 등록되지 않도록)
+    const errors: string[] = [];
+    const rows = prompts.map((row: { prompt?: unknown; overrides?: Record<string, unknown> }, index: number) => {
+      if (typeof row?.prompt !== 'string' || !row.prompt.trim()) {
+        errors.push(`Row ${index + 1}: prompt is required`);
+        return null;
+      }
+
+      let rowConfig: AIModelConfig;
+      try {
+        // 입력 이미지는 배치에서 사용하지 않음
+        rowConfig = {
+          ...config,
+          ...normalizeBatchOverrides(row.overrides || {}),
+          firstFrameImage: undefined,
+          lastFrameImage: undefined
+        };
+      } catch (error) {
+        errors.push(`Row ${index + 1}: ${error instanceof Error ? error.message : error}`);
+        return null;
+      }
+
+      const validation = VideoGenerationService.validateModelParameters(
+        rowConfig.videoGenerationModel,
+        rowConfig.durationSeconds,
+        rowConfig.generateAudio,
+        rowConfig.enhancePrompt,
+        rowConfig.aspectRatio || '16:9',
+        false,
+        false,
+        false,
+        rowConfig.numberOfVideos || 1,
+        rowConfig.seed
+      );
+      if (!validation.isValid) {
+        errors.push(`Row ${index + 1}: ${validation.errors.join(', ')}`);
+        return null;
+      }
+
+      return {
+        koreanPrompt: row.prompt.trim(),
+        config: {
+          ...rowConfig,
+          seed: rowConfig.seed ?? Math.floor(Math.random() * (API_CONFIG.VIDEO_GENERATION.MAX_SEED + 1))
+        }
+      };
+    });
+
+    if (errors.length > 0) {
+      Logger.warn('Batch submission has invalid rows', { route, errors });
+      return NextResponse.json(
+        { error: `Invalid batch: ${errors.join('; ')}`, errors },
+        { status: 400 }
+      );
+    }
+
+    // 6. 생성 한도 확인과 사용량 기록 (배치 전체의 생성 개수)
+    const validRows = (rows as { koreanPrompt: string; config: AIModelConfig }[])
+      .map(row => ({ ...row, videoId: uuidv4() }));
+    await reserveGenerationQuota(
+      user.email,
+      validRows.map(row => ({ videoId: row.videoId, generations: row.config.numberOfVideos || 1 }))
+    );
+
+    // 7. 비디오 레코드 생성 후 작업 등록 (같은 배치의 작업은 워커가 동시 실행 수를 제한)
+    const db = await getDatabase();
+    const batchId = uuidv4();
+    const videoIds: string[] = [];
+
+    try {
+      for (const { videoId, ...row } of validRows) {
+        await db.insertVideo({
+          id: videoId,
+          korean_prompt: row.koreanPrompt,
+          english_prompt: '',
+          user_email: user.email,
+          status: 'pending',
+          generation_group_id: (row.config.numberOfVideos || 1) > 1 ? videoId : undefined,
+          generation_config: row.config,
+          batch_id: batchId
+        });
+        videoIds.push(videoId);
+        await enqueueVideoGeneration(videoId, row, batchId);
+      }
+    } catch (error) {
+      // 만들지 못한 비디오의 사용량은 되돌림
+      await db.releaseGenerationUsage(validRows.map(row => row.videoId).filter(videoId => !videoIds.includes(videoId)));
+      throw error;
+    }
+
+    // 8. Return the batch id so the client can follow its progress
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { batchId, count: videoIds.length });
+
+    return NextResponse.json({
+      batchId,
+      videoIds,
+      count: videoIds.length
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Batch submission rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to submit batch' },
+      { status: 500 }
+    );
+  }
+}
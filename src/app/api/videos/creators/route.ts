@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { Logger } from '@/lib/logger';
+
+// GET /api/videos/creators - List everyone who has created videos
+export async function GET() {
+  const startTime = Date.now();
+  const route = '/api/videos/creators';
+
+  try {
+    Logger.apiStart(route);
+
+    const db = await getDatabase();
+    const creators = await db.getVideoCreators();
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { count: creators.length });
+
+    return NextResponse.json({
+      creators: creators.map(creator => ({
+        userEmail: creator.user_email,
+        videoCount: creator.video_count
+      }))
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch video creators' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Logger } from '@/lib/logger';
+import { getSessionUser } from '@/lib/auth';
+import { getVideoEventHub, VideoEvent } from '@/lib/video-events';
+import { API_CONFIG } from '@/lib/constants';
+
+// 스트림은 요청마다 열려 있어야 하므로 정적 처리 및 Edge 런타임 제외
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/videos/events - Stream video status and sync status changes (Server-Sent Events)
+export async function GET(request: NextRequest) {
+  const route = '/api/videos/events';
+
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  Logger.apiStart(route, { userEmail: user.email });
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // 이미 닫힌 스트림
+          cleanup?.();
+        }
+      };
+
+      // 브라우저 EventSource의 재연결 대기 시간 지정
+      send(`retry: ${API_CONFIG.EVENT_STREAM.RECONNECT_DELAY}\n\n`);
+
+      const unsubscribe = getVideoEventHub().subscribe((event: VideoEvent) => {
+        const data = event.type === 'video' ? event.video : event.syncStatus;
+        send(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), API_CONFIG.EVENT_STREAM.HEARTBEAT_INTERVAL);
+
+      cleanup = () => {
+        cleanup = null;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // 이미 닫힌 스트림
+        }
+        Logger.debug('Video event stream closed', { route, userEmail: user.email });
+      };
+
+      request.signal.addEventListener('abort', () => cleanup?.());
+    },
+    cancel() {
+      cleanup?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // nginx 등 프록시의 응답 버퍼링 비활성화
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
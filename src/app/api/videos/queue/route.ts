@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getVeoConcurrencyLimits } from '@/lib/video-job-worker';
+import { Logger } from '@/lib/logger';
+import { API_CONFIG } from '@/lib/constants';
+import { VideoQueueStatus } from '@/types';
+
+// GET /api/videos/queue - Queue position of each waiting video and running Veo operations per model
+export async function GET() {
+  const startTime = Date.now();
+  const route = '/api/videos/queue';
+
+  try {
+    Logger.apiStart(route);
+
+    const db = await getDatabase();
+    const { entries, active } = await db.getVideoQueue(API_CONFIG.JOB_QUEUE.PRIORITY_AGING_INTERVAL);
+
+    const queue: VideoQueueStatus = {
+      positions: Object.fromEntries(entries.map(entry => [entry.video_id, entry.position])),
+      queueLength: entries.length,
+      expedited: entries.filter(entry => entry.priority > 0).map(entry => entry.video_id),
+      active,
+      limits: getVeoConcurrencyLimits()
+    };
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { queueLength: queue.queueLength });
+
+    return NextResponse.json(queue);
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch video queue' },
+      { status: 500 }
+    );
+  }
+}
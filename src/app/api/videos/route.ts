@@ -1,11 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase, VideoRecord, isVideoGenerationEnabled, getVideoRecordsWithCount } from '@/lib/database';
+import { getDatabase, VideoRecord, VideoListFilters, VideoCursor, isVideoGenerationEnabled, getVideoRecordsWithCount, getVideoRecordsAfterCursor } from '@/lib/database';
 import { initializeVideoSync } from '@/lib/video-sync';
 import { Logger } from '@/lib/logger';
+import { getSessionUser, requireRole } from '@/lib/auth';
+import { canManageVideo, hasRole } from '@/lib/permissions';
+import { ApiError, createApiError } from '@/lib/api-utils';
+import { assertGenerationQuota } from '@/lib/generation-quota';
+import { VIDEO_STATUS } from '@/lib/constants';
 
 // 초기화 상태 추적
 let isVideoSyncInitialized = false;
 
+const VALID_STATUSES: readonly string[] = Object.values(VIDEO_STATUS);
+
+// 커서는 클라이언트에 불투명한 base64url 문자열로 전달
+function encodeCursor(cursor: VideoCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): VideoCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor?.createdAt === 'string' && typeof cursor?.id === 'string' && !isNaN(Date.parse(cursor.createdAt))) {
+      return { createdAt: cursor.createdAt, id: cursor.id };
+    }
+  } catch {
+    // 아래에서 400 처리
+  }
+  throw new ApiError('Invalid cursor', 400);
+}
+
+// 목록 필터 쿼리 파라미터 파싱 (잘못된 값은 400 처리)
+function parseListFilters(searchParams: URLSearchParams): Omit<VideoListFilters, 'userEmail' | 'q'> {
+  const filters: Omit<VideoListFilters, 'userEmail' | 'q'> = {};
+
+  // status=completed,error 처럼 쉼표로 여러 상태 지정
+  const statusParam = searchParams.get('status');
+  if (statusParam) {
+    const statuses = statusParam.split(',').map(status => status.trim()).filter(Boolean);
+    const invalid = statuses.filter(status => !VALID_STATUSES.includes(status));
+    if (invalid.length > 0) {
+      throw new ApiError(`Invalid status: ${invalid.join(', ')}`, 400);
+    }
+    filters.statuses = statuses as VideoRecord['status'][];
+  }
+
+  // from은 포함, to는 미포함 (ISO 날짜/시각)
+  for (const [key, field] of [['from', 'createdFrom'], ['to', 'createdTo']] as const) {
+    const value = searchParams.get(key);
+    if (value) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new ApiError(`Invalid ${key} date: ${value}`, 400);
+      }
+      filters[field] = date;
+    }
+  }
+
+  const model = searchParams.get('model');
+  if (model) {
+    filters.model = model;
+  }
+
+  const resolution = searchParams.get('resolution');
+  if (resolution) {
+    filters.resolution = resolution;
+  }
+
+  const duration = searchParams.get('duration');
+  if (duration) {
+    const durationSeconds = parseInt(duration);
+    if (isNaN(durationSeconds)) {
+      throw new ApiError(`Invalid duration: ${duration}`, 400);
+    }
+    filters.durationSeconds = durationSeconds;
+  }
+
+  const hasAudio = searchParams.get('hasAudio');
+  if (hasAudio === 'true' || hasAudio === 'false') {
+    filters.hasAudio = hasAudio === 'true';
+  } else if (hasAudio) {
+    throw new ApiError(`Invalid hasAudio: ${hasAudio}`, 400);
+  }
+
+  const batch = searchParams.get('batch');
+  if (batch) {
+    filters.batchId = batch;
+  }
+
+  return filters;
+}
+
 // GET /api/videos - Get all videos with pagination
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -27,15 +112,33 @@ export async function GET(request: NextRequest) {
     const idsParam = searchParams.get('ids');
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = parseInt(searchParams.get('offset') || '0');
-    const status = searchParams.get('status') as VideoRecord['status'] | null;
+    // cursor 파라미터가 있으면 (첫 페이지는 빈 값) OFFSET 대신 커서 기반으로 조회
+    const cursorParam = searchParams.get('cursor');
+    const includeGroupMembers = searchParams.get('includeGroupMembers') === 'true';
+    // creator=me는 세션 사용자의 비디오, creator=<email>은 해당 사용자의 비디오만 조회
+    const creator = searchParams.get('creator');
+    const userEmail = creator === 'me' ? (await getSessionUser(request))?.email : creator || undefined;
+
+    // q는 한국어/영어 프롬프트 검색어
+    const q = searchParams.get('q')?.trim().substring(0, 200) || undefined;
+
+    // 상태, 생성일 범위, 모델, 해상도, 길이, 오디오 여부 필터
+    const listFilters = parseListFilters(searchParams);
+
+    if (creator === 'me' && !userEmail) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
 
-    Logger.apiStart(route, { ids: idsParam, limit, offset, status });
+    Logger.apiStart(route, { ids: idsParam, limit, offset, cursor: cursorParam, includeGroupMembers, userEmail, q, ...listFilters });
 
     const db = await getDatabase();
 
     if (idsParam) {
       const ids = idsParam.split(',');
-      const videos = await db.getVideosByIds(ids);
+      const videos = await db.getVideosByIds(ids, includeGroupMembers);
       
       const duration = Date.now() - startTime;
       Logger.apiSuccess(route, duration, { 
@@ -51,25 +154,32 @@ export async function GET(request: NextRequest) {
         offset,
         hasMore: false
       });
-    } else if (status) {
-      const videos = await db.getVideosByStatus(status);
-      
+    } else if (cursorParam !== null) {
+      const filters = { userEmail, q, ...listFilters };
+      const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+      // 전체 개수는 첫 페이지에서만 계산 (이후 페이지는 COUNT 생략)
+      const [result, totalCount] = await Promise.all([
+        getVideoRecordsAfterCursor(limit, cursor, filters),
+        cursor ? Promise.resolve(undefined) : db.countVideos(filters)
+      ]);
+
       const duration = Date.now() - startTime;
       Logger.apiSuccess(route, duration, { 
-        videoCount: videos.length,
-        hasStatus: !!status 
+        videoCount: result.videos.length,
+        totalCount,
+        hasMore: result.hasMore
       });
 
       return NextResponse.json({
-        videos,
-        count: videos.length,
-        totalCount: videos.length,
+        videos: result.videos,
+        count: result.videos.length,
+        totalCount,
         limit,
-        offset,
-        hasMore: false
+        nextCursor: result.nextCursor ? encodeCursor(result.nextCursor) : null,
+        hasMore: result.hasMore
       });
     } else {
-      const result = await getVideoRecordsWithCount(limit, offset);
+      const result = await getVideoRecordsWithCount(limit, offset, { userEmail, q, ...listFilters });
       
       const duration = Date.now() - startTime;
       Logger.apiSuccess(route, duration, { 
@@ -88,6 +198,11 @@ export async function GET(request: NextRequest) {
       });
     }
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video list request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -114,27 +229,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 2. 요청 데이터 파싱
+    // 2. 생성 권한 확인 (작성자 이메일은 요청 본문이 아닌 세션에서 결정)
+    const user = await requireRole(request, 'creator');
+    const user_email = user.email;
+
+    // 3. 생성 한도 확인 (여러 개 생성은 /api/generate-video에서 요청한 개수로 다시 확인)
+    await assertGenerationQuota(user_email, 1);
+
+    // 4. 요청 데이터 파싱 (상태와 번역은 워커가 정하므로 요청 본문의 값은 사용하지 않음)
     const body = await request.json();
-    const { id, korean_prompt, english_prompt, user_email, status } = body;
+    const { id, korean_prompt } = body;
 
     Logger.apiStart(route, { 
       id, 
       korean_prompt: korean_prompt?.substring(0, 50) + '...',
-      user_email,
-      status 
+      user_email
     });
 
-    // 3. 필수 파라미터 검증
-    if (!id || !korean_prompt || !user_email) {
+    // 5. 필수 파라미터 검증
+    if (!id || !korean_prompt) {
       Logger.warn('Video creation request missing required fields', { 
         route, 
         hasId: !!id, 
-        hasKoreanPrompt: !!korean_prompt,
-        hasUserEmail: !!user_email
+        hasKoreanPrompt: !!korean_prompt
       });
       return NextResponse.json(
-        { error: 'ID, Korean prompt, and user email are required' },
+        { error: 'ID and Korean prompt are required' },
         { status: 400 }
       );
     }
@@ -155,9 +275,9 @@ export async function POST(request: NextRequest) {
     const videoRecord = await db.insertVideo({
       id,
       korean_prompt,
-      english_prompt: english_prompt || '',
+      english_prompt: '',
       user_email,
-      status: status || 'pending'
+      status: 'pending'
     });
 
     const duration = Date.now() - startTime;
@@ -165,6 +285,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(videoRecord, { status: 201 });
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video creation request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
@@ -187,6 +312,9 @@ export async function PATCH(request: NextRequest) {
   const route = '/api/videos';
   
   try {
+    // 임의 필드 수정은 관리자만 가능
+    await requireRole(request, 'admin');
+
     const body = await request.json();
     const { id, ...updates } = body;
 
@@ -219,6 +347,11 @@ export async function PATCH(request: NextRequest) {
 
     return NextResponse.json(videoRecord);
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video update request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -235,31 +368,26 @@ export async function DELETE(request: NextRequest) {
   const route = '/api/videos';
 
   try {
+    const user = await requireRole(request, 'creator');
+
     let body;
     try {
       body = await request.json();
     } catch (e) {
       Logger.warn('DELETE request with empty or invalid JSON body', { route });
-      return NextResponse.json({ error: '잘못된 요청입니다. 삭제 키가 필요합니다.' }, { status: 400 });
+      return NextResponse.json({ error: '잘못된 요청입니다. 삭제할 대상을 지정해야 합니다.' }, { status: 400 });
     }
     
-    const { deleteKey, videoIds, deleteAll } = body;
-    const adminKey = process.env.ADMIN_SECRET_KEY;
-
-    if (!adminKey) {
-      const message = 'ADMIN_SECRET_KEY is not configured on the server.';
-      Logger.error(message, { route });
-      return NextResponse.json({ error: '서버가 삭제 기능을 사용하도록 구성되지 않았습니다.' }, { status: 500 });
-    }
-
-    if (deleteKey !== adminKey) {
-      Logger.warn('Invalid delete key provided for bulk delete', { route });
-      return NextResponse.json({ error: '잘못된 삭제 키입니다.' }, { status: 403 });
-    }
-
+    const { videoIds, deleteAll } = body;
     const db = await getDatabase();
 
     if (deleteAll) {
+      // 전체 삭제는 관리자만 가능
+      if (!hasRole(user, 'admin')) {
+        Logger.warn('Non-admin user attempted to delete all videos', { route, userEmail: user.email });
+        return NextResponse.json({ error: '전체 삭제는 관리자만 할 수 있습니다.' }, { status: 403 });
+      }
+
       Logger.apiStart(route, { action: 'deleteAll' });
       const count = await db.clearAllVideos();
       const duration = Date.now() - startTime;
@@ -268,6 +396,14 @@ export async function DELETE(request: NextRequest) {
     }
 
     if (videoIds && Array.isArray(videoIds) && videoIds.length > 0) {
+      // 본인 비디오만 삭제 가능 (관리자는 모든 비디오 삭제 가능)
+      const videos = await db.getVideosByIds(videoIds);
+      const forbiddenIds = videos.filter(video => !canManageVideo(user, video.user_email)).map(video => video.id);
+      if (forbiddenIds.length > 0) {
+        Logger.warn('User attempted to delete videos owned by others', { route, userEmail: user.email, forbiddenIds });
+        return NextResponse.json({ error: '다른 사용자의 비디오는 삭제할 수 없습니다.' }, { status: 403 });
+      }
+
       Logger.apiStart(route, { action: 'deleteSelected', count: videoIds.length });
       const count = await db.deleteVideos(videoIds);
       const duration = Date.now() - startTime;
@@ -279,6 +415,11 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({ error: '잘못된 삭제 요청입니다. 삭제할 대상을 지정해야 합니다.' }, { status: 400 });
 
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video delete request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
     
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { Logger } from '@/lib/logger';
+import { GenerationStageEstimate } from '@/types';
+
+// GET /api/videos/stage-estimates - Median time per generation stage for each model, used for ETA
+export async function GET() {
+  const startTime = Date.now();
+  const route = '/api/videos/stage-estimates';
+
+  try {
+    Logger.apiStart(route);
+
+    const db = await getDatabase();
+    const durations = await db.getStageDurations();
+
+    const estimates: GenerationStageEstimate[] = durations.map(duration => ({
+      model: duration.model,
+      pendingSeconds: duration.pending_seconds,
+      translatingSeconds: duration.translating_seconds,
+      generatingSeconds: duration.generating_seconds,
+      processingSeconds: duration.processing_seconds,
+      sampleCount: duration.sample_count
+    }));
+
+    const duration = Date.now() - startTime;
+    Logger.apiSuccess(route, duration, { models: estimates.length });
+
+    return NextResponse.json({ estimates });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.apiError(route, duration, error);
+
+    return NextResponse.json(
+      { error: 'Failed to fetch stage estimates' },
+      { status: 500 }
+    );
+  }
+}
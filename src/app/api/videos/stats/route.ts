@@ -1,34 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/database';
+import { getDatabase, VideoOutcomeCountsRow } from '@/lib/database';
 import { Logger } from '@/lib/logger';
+import { ApiError, createApiError, parseDateRangeParams } from '@/lib/api-utils';
+import { ANALYTICS_CONFIG } from '@/lib/constants';
+import { VideoOutcomeCounts, VideoStats } from '@/types';
 
-// GET /api/videos/stats - Get database statistics
+// 완료/(완료+오류) 비율 (진행 중이거나 취소된 비디오는 제외)
+const toOutcomeCounts = (row: VideoOutcomeCountsRow): VideoOutcomeCounts => ({
+  total: row.total,
+  completed: row.completed,
+  failed: row.failed,
+  cancelled: row.cancelled,
+  successRate: row.completed + row.failed > 0 ? row.completed / (row.completed + row.failed) : null
+});
+
+// GET /api/videos/stats - Current totals plus outcome trends for a date range (from inclusive, to exclusive)
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   const route = '/api/videos/stats';
-  
+
   try {
-    Logger.apiStart(route, {});
+    const { from, to } = parseDateRangeParams(
+      request.nextUrl.searchParams,
+      ANALYTICS_CONFIG.DEFAULT_RANGE_DAYS,
+      ANALYTICS_CONFIG.MAX_RANGE_DAYS
+    );
+    Logger.apiStart(route, { from: from.toISOString(), to: to.toISOString() });
 
     const db = await getDatabase();
-    const stats = await db.getStats();
-    
-    // Also get videos by status for more detailed info
-    const pendingVideos = await db.getVideosByStatus('pending');
-    const translatingVideos = await db.getVideosByStatus('translating');
-    const generatingVideos = await db.getVideosByStatus('generating');
-    const processingVideos = await db.getVideosByStatus('processing');
-    
+    const [stats, analytics] = await Promise.all([
+      db.getStats(),
+      db.getVideoAnalytics(from.toISOString(), to.toISOString(), ANALYTICS_CONFIG.ERROR_CATEGORIES)
+    ]);
+
     const duration = Date.now() - startTime;
-    const responseData = {
-      ...stats,
+    const responseData: VideoStats & { success: true } = {
+      totalVideos: stats.totalVideos,
+      completedVideos: stats.completedVideos,
+      errorVideos: stats.errorVideos,
       progressingVideos: {
-        pending: pendingVideos.length,
-        translating: translatingVideos.length,
-        generating: generatingVideos.length,
-        processing: processingVideos.length,
-        total: pendingVideos.length + translatingVideos.length + generatingVideos.length + processingVideos.length
+        pending: stats.pendingVideos,
+        queued: stats.queuedVideos,
+        translating: stats.translatingVideos,
+        generating: stats.generatingVideos,
+        processing: stats.processingVideos,
+        total: stats.pendingVideos + stats.queuedVideos + stats.translatingVideos + stats.generatingVideos + stats.processingVideos
       },
+      from: from.toISOString(),
+      to: to.toISOString(),
+      summary: toOutcomeCounts(analytics.summary),
+      daily: analytics.daily.map(row => ({ day: row.day, ...toOutcomeCounts(row) })),
+      models: analytics.models.map(row => ({
+        model: row.model,
+        medianGenerationSeconds: row.median_generation_seconds,
+        ...toOutcomeCounts(row)
+      })),
+      errorCategories: analytics.error_categories.map(row => ({
+        category: row.category,
+        label: ANALYTICS_CONFIG.ERROR_CATEGORIES.find(category => category.key === row.category)?.label
+          || ANALYTICS_CONFIG.OTHER_ERROR_LABEL,
+        count: row.count
+      })),
       success: true
     };
 
@@ -37,17 +69,23 @@ export async function GET(request: NextRequest) {
       completedVideos: stats.completedVideos,
       errorVideos: stats.errorVideos,
       progressingTotal: responseData.progressingVideos.total,
+      rangeTotal: responseData.summary.total,
       totalDuration: `${duration}ms`
     });
 
     return NextResponse.json(responseData);
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('Video statistics request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.apiError(route, duration, error);
-    
+
     return NextResponse.json(
       { error: 'Failed to get video statistics' },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
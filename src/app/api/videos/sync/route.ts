@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getVideoSyncStatus, initializeVideoSync, syncNewVideo } from '@/lib/video-sync';
 import { Logger } from '@/lib/logger';
+import { requireRole } from '@/lib/auth';
+import { ApiError, createApiError } from '@/lib/api-utils';
 
 // GET /api/videos/sync - 비디오 동기화 상태 조회
 export async function GET(request: NextRequest) {
@@ -51,6 +53,9 @@ export async function POST(request: NextRequest) {
   const route = '/api/videos/sync';
   
   try {
+    // 동기화 작업은 관리자만 실행 가능
+    await requireRole(request, 'admin');
+
     const body = await request.json();
     const { action, videoId, gcsUri } = body;
     
@@ -103,6 +108,11 @@ export async function POST(request: NextRequest) {
     }
     
   } catch (error) {
+    if (error instanceof ApiError) {
+      Logger.warn('API - Video sync request rejected', { route, error: error.message });
+      return createApiError(error);
+    }
+
     const duration = Date.now() - startTime;
     Logger.error('API - Failed to process video sync request', {
       route,
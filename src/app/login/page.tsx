@@ -0,0 +1,24 @@
+import { LoginForm } from '@/components/login-form';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: '로그인',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+
+  return (
+    <div className="container mx-auto px-4 py-16 flex justify-center">
+      <LoginForm next={next} error={error} />
+    </div>
+  );
+}
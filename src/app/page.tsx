@@ -1,9 +1,13 @@
+import { Suspense } from 'react';
 import { VideoDashboard } from '@/components/video-dashboard';
 
 export default function Home() {
   return (
     <div className="space-y-8 bg-white min-h-screen">
-      <VideoDashboard />
+      {/* 대시보드는 URL 검색 파라미터(작성자 필터)를 사용 */}
+      <Suspense>
+        <VideoDashboard />
+      </Suspense>
     </div>
   );
 }
@@ -2,24 +2,23 @@
 
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { Lock, Unlock, Shield, Eye, EyeOff } from 'lucide-react';
+import { Lock, Unlock, Shield } from 'lucide-react';
+import { useSession } from '@/hooks/use-session';
+import { hasRole } from '@/lib/permissions';
 
 interface AdminControlPanelProps {
   onFeatureStatusChange?: (enabled: boolean) => void;
 }
 
 export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelProps) {
-  const [adminKey, setAdminKey] = useState('');
-  const [showKey, setShowKey] = useState(false);
+  const { user, isLoading: isSessionLoading } = useSession();
   const [isLoading, setIsLoading] = useState(false);
   const [videoGenerationEnabled, setVideoGenerationEnabled] = useState<boolean | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const isAdmin = hasRole(user, 'admin');
 
   // 컴포넌트 마운트 시 현재 기능 상태 확인
   useEffect(() => {
@@ -42,11 +41,6 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
   };
 
   const handleToggleFeature = async (action: 'enable' | 'disable') => {
-    if (!adminKey.trim()) {
-      setMessage({ type: 'error', text: '관리자 키를 입력해주세요.' });
-      return;
-    }
-
     setIsLoading(true);
     setMessage(null);
 
@@ -54,25 +48,22 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
       const response = await fetch('/api/admin/toggle-feature', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminKey, action }),
+        body: JSON.stringify({ action }),
       });
 
       const data = await response.json();
 
       if (response.ok) {
         setVideoGenerationEnabled(data.videoGenerationEnabled);
-        setIsAuthenticated(true);
         setMessage({ 
           type: 'success', 
           text: `비디오 생성 기능이 ${data.videoGenerationEnabled ? '활성화' : '비활성화'}되었습니다.` 
         });
         onFeatureStatusChange?.(data.videoGenerationEnabled);
       } else {
-        setIsAuthenticated(false);
         setMessage({ type: 'error', text: data.error || '작업 실행에 실패했습니다.' });
       }
     } catch (error) {
-      setIsAuthenticated(false);
       setMessage({ type: 'error', text: '서버 연결에 실패했습니다.' });
     } finally {
       setIsLoading(false);
@@ -80,11 +71,6 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
   };
 
   const handleCheckStatus = async () => {
-    if (!adminKey.trim()) {
-      setMessage({ type: 'error', text: '관리자 키를 입력해주세요.' });
-      return;
-    }
-
     setIsLoading(true);
     setMessage(null);
 
@@ -92,24 +78,21 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
       const response = await fetch('/api/admin/toggle-feature', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adminKey, action: 'status' }),
+        body: JSON.stringify({ action: 'status' }),
       });
 
       const data = await response.json();
 
       if (response.ok) {
         setVideoGenerationEnabled(data.videoGenerationEnabled);
-        setIsAuthenticated(true);
         setMessage({ 
           type: 'success', 
           text: `현재 비디오 생성 기능은 ${data.videoGenerationEnabled ? '활성화' : '비활성화'} 상태입니다.` 
         });
       } else {
-        setIsAuthenticated(false);
         setMessage({ type: 'error', text: data.error || '상태 확인에 실패했습니다.' });
       }
     } catch (error) {
-      setIsAuthenticated(false);
       setMessage({ type: 'error', text: '서버 연결에 실패했습니다.' });
     } finally {
       setIsLoading(false);
@@ -124,7 +107,7 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
           관리자 제어 패널
         </CardTitle>
         <CardDescription className="text-amber-700">
-          관리자 전용 키를 사용하여 비디오 생성 기능을 제어할 수 있습니다.
+          관리자 역할을 가진 사용자만 비디오 생성 기능을 제어할 수 있습니다.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -142,31 +125,14 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
           </div>
         )}
 
-        {/* 관리자 키 입력 */}
-        <div className="space-y-2">
-          <Label htmlFor="admin-key">관리자 키</Label>
-          <div className="relative">
-            <Input
-              id="admin-key"
-              type={showKey ? "text" : "password"}
-              value={adminKey}
-              onChange={(e) => setAdminKey(e.target.value)}
-              placeholder="관리자 키를 입력하세요"
-              disabled={isLoading}
-              className="pr-10"
-            />
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              className="absolute right-0 top-0 h-full px-3 py-2"
-              onClick={() => setShowKey(!showKey)}
-              disabled={isLoading}
-            >
-              {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-            </Button>
-          </div>
-        </div>
+        {/* 권한 안내 */}
+        {!isSessionLoading && !isAdmin && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">
+              관리자 역할이 필요합니다. 현재 역할: {user?.role ?? '없음'}
+            </AlertDescription>
+          </Alert>
+        )}
 
         {/* 메시지 표시 */}
         {message && (
@@ -182,7 +148,7 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
           <Button
             onClick={handleCheckStatus}
             variant="outline"
-            disabled={isLoading}
+            disabled={isLoading || !isAdmin}
             className="flex items-center gap-2"
           >
             {isLoading ? (
@@ -196,7 +162,7 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
           <Button
             onClick={() => handleToggleFeature('enable')}
             variant="default"
-            disabled={isLoading || (isAuthenticated && videoGenerationEnabled === true)}
+            disabled={isLoading || !isAdmin || videoGenerationEnabled === true}
             className="flex items-center gap-2 bg-green-600 hover:bg-green-700"
           >
             {isLoading ? (
@@ -210,7 +176,7 @@ export function AdminControlPanel({ onFeatureStatusChange }: AdminControlPanelPr
           <Button
             onClick={() => handleToggleFeature('disable')}
             variant="destructive"
-            disabled={isLoading || (isAuthenticated && videoGenerationEnabled === false)}
+            disabled={isLoading || !isAdmin || videoGenerationEnabled === false}
             className="flex items-center gap-2"
           >
             {isLoading ? (
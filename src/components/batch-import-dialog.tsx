@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileUp, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AIModelConfig } from '@/types';
+import { BATCH_CONFIG } from '@/lib/constants';
+import { BatchPromptRow, parseBatchFile } from '@/lib/batch-import';
+
+interface BatchImportDialogProps {
+  // 행에서 지정하지 않은 설정은 폼의 현재 설정을 사용
+  config: AIModelConfig;
+  onSubmit: (rows: BatchPromptRow[], config: AIModelConfig) => Promise<void>;
+  disabled?: boolean;
+}
+
+export function BatchImportDialog({ config, onSubmit, disabled }: BatchImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState<BatchPromptRow[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setRows([]);
+    setFileName(null);
+    setParseError(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) reset();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+
+    if (file.size > BATCH_CONFIG.MAX_FILE_SIZE) {
+      setParseError(`파일은 ${BATCH_CONFIG.MAX_FILE_SIZE / (1024 * 1024)}MB 이하여야 합니다.`);
+      return;
+    }
+
+    try {
+      setRows(parseBatchFile(await file.text(), file.name));
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(rows, config);
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error('배치를 제출하지 못했습니다.', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full" disabled={disabled}>
+          <FileUp className="mr-2 h-4 w-4" />
+          CSV/JSON으로 여러 프롬프트 가져오기
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>배치 가져오기</DialogTitle>
+          <DialogDescription>
+            프롬프트 목록 파일을 올리면 프롬프트마다 비디오를 생성합니다. 최대 {BATCH_CONFIG.MAX_PROMPTS}개까지 한 번에 제출할 수 있으며, 같은 배치는 일부씩 차례로 생성됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="batch-file">파일 (.csv, .json)</Label>
+            <Input id="batch-file" type="file" accept=".csv,.json" onChange={handleFileChange} disabled={isSubmitting} />
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>• CSV: 첫 줄에 <code>prompt</code> 열과 필요한 설정 열을 적습니다. 예: <code>prompt,durationSeconds,aspectRatio</code></p>
+              <p>• JSON: 프롬프트 문자열 또는 <code>{'{ "prompt": "...", "seed": 42 }'}</code> 형식 객체의 배열</p>
+              <p>• 행별로 바꿀 수 있는 설정: {BATCH_CONFIG.OVERRIDABLE_FIELDS.join(', ')} (비워두면 폼의 현재 설정 사용, 입력 이미지는 사용하지 않음)</p>
+            </div>
+          </div>
+
+          {parseError && (
+            <p className="text-sm text-red-600">{fileName}: {parseError}</p>
+          )}
+
+          {rows.length > 0 && (
+            <div className="max-h-72 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>프롬프트</TableHead>
+                    <TableHead>설정 변경</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                      <TableCell className="max-w-sm whitespace-normal">{row.prompt}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-normal">
+                        {Object.entries(row.overrides).map(([field, value]) => `${field}=${value}`).join(', ') || '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            취소
+          </Button>
+          <Button type="button" onClick={handleSubmit} disabled={rows.length === 0 || isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {rows.length}개 비디오 생성
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import { Gauge } from 'lucide-react';
+import { format } from 'date-fns';
+import { GenerationQuota, GenerationQuotaUsage } from '@/types';
+
+interface GenerationQuotaMeterProps {
+  quota: GenerationQuota | null;
+}
+
+const QUOTA_LABELS: { key: 'daily' | 'monthly' | 'global'; label: string }[] = [
+  { key: 'daily', label: '오늘' },
+  { key: 'monthly', label: '이번 달' },
+  { key: 'global', label: '전체 월 예산' },
+];
+
+export function GenerationQuotaMeter({ quota }: GenerationQuotaMeterProps) {
+  const limitedUsages = QUOTA_LABELS
+    .map(({ key, label }) => ({ label, usage: quota?.[key] }))
+    .filter((entry): entry is { label: string; usage: GenerationQuotaUsage } => entry.usage?.limit != null);
+
+  // 한도가 설정되지 않았으면 표시하지 않음
+  if (limitedUsages.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 p-3 border rounded-lg bg-muted/50">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Gauge className="h-4 w-4" />
+          생성 한도
+        </span>
+        <span className={`text-sm font-medium ${quota?.remaining === 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+          {quota?.remaining}회 남음
+        </span>
+      </div>
+      {limitedUsages.map(({ label, usage }) => (
+        <div key={label} className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{label} {usage.used} / {usage.limit}회 사용</span>
+            <span>{format(new Date(usage.resetsAt), 'M월 d일 HH:mm')} 초기화</span>
+          </div>
+          <Progress value={usage.limit ? Math.min((usage.used / usage.limit) * 100, 100) : 100} className="h-1.5" />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Gauge, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSession } from '@/hooks/use-session';
+import { hasRole } from '@/lib/permissions';
+import { GenerationQuotaLimits } from '@/types';
+
+const QUOTA_FIELDS: { key: keyof GenerationQuotaLimits; label: string }[] = [
+  { key: 'userDaily', label: '사용자별 일일 한도' },
+  { key: 'userMonthly', label: '사용자별 월간 한도' },
+  { key: 'globalMonthly', label: '전체 월간 예산' },
+];
+
+type QuotaInputs = Record<keyof GenerationQuotaLimits, string>;
+
+const toInputs = (limits: GenerationQuotaLimits): QuotaInputs => ({
+  userDaily: limits.userDaily?.toString() ?? '',
+  userMonthly: limits.userMonthly?.toString() ?? '',
+  globalMonthly: limits.globalMonthly?.toString() ?? '',
+});
+
+export function GenerationQuotaSettings() {
+  const { user, isLoading: isSessionLoading } = useSession();
+  const [inputs, setInputs] = useState<QuotaInputs>({ userDaily: '', userMonthly: '', globalMonthly: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const isAdmin = hasRole(user, 'admin');
+
+  const loadLimits = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/quotas');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch quota limits: ${response.status}`);
+      }
+      setInputs(toInputs(await response.json()));
+    } catch (error) {
+      console.error('Failed to load quota limits:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadLimits();
+    }
+  }, [isAdmin, loadLimits]);
+
+  const saveLimits = async () => {
+    setIsSaving(true);
+    try {
+      // 빈 값은 제한 없음
+      const limits = Object.fromEntries(
+        QUOTA_FIELDS.map(({ key }) => [key, inputs[key].trim() === '' ? null : Number(inputs[key])])
+      );
+      const response = await fetch('/api/admin/quotas', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(limits),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '생성 한도를 저장하지 못했습니다.');
+      }
+      setInputs(toInputs(data));
+      toast.success('생성 한도를 저장했습니다.');
+    } catch (error) {
+      toast.error('생성 한도 저장에 실패했습니다.', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isSessionLoading || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          생성 한도 설정
+        </CardTitle>
+        <CardDescription>
+          생성할 수 있는 비디오 개수를 제한합니다. 일일 한도는 매일, 월간 한도는 매월 1일(UTC 기준)에 초기화되며 비워두면 제한이 없습니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {QUOTA_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`quota-${key}`}>{label}</Label>
+              <Input
+                id={`quota-${key}`}
+                type="number"
+                min={0}
+                step={1}
+                placeholder="제한 없음"
+                value={inputs[key]}
+                onChange={(e) => setInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                disabled={isSaving}
+              />
+            </div>
+          ))}
+        </div>
+        <Button onClick={saveLimits} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          저장
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Mail } from 'lucide-react';
+
+interface LoginFormProps {
+  next?: string;
+  error?: string;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_link: '로그인 링크가 만료되었거나 이미 사용되었습니다. 다시 요청해주세요.',
+  login_failed: '로그인 처리 중 오류가 발생했습니다. 다시 시도해주세요.',
+};
+
+export function LoginForm({ next, error }: LoginFormProps) {
+  const [email, setEmail] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [devLoginUrl, setDevLoginUrl] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(error ? ERROR_MESSAGES[error] || ERROR_MESSAGES.login_failed : null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), next }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '로그인 링크를 보내지 못했습니다.');
+      }
+      setIsSent(true);
+      setDevLoginUrl(data.devLoginUrl || null);
+    } catch (err) {
+      setErrorMessage(err instanceof Error ? err.message : '로그인 링크를 보내지 못했습니다.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>로그인</CardTitle>
+        <CardDescription>
+          이메일로 전송되는 로그인 링크를 열면 로그인됩니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isSent ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-gray-700">
+              <strong>{email.trim()}</strong>(으)로 로그인 링크를 보냈습니다. 메일함을 확인해주세요.
+            </p>
+            {devLoginUrl && (
+              <div className="rounded-md border border-dashed border-amber-300 bg-amber-50 p-3 space-y-2">
+                <p className="text-amber-800">개발 환경에서는 메일 대신 아래 링크로 바로 로그인할 수 있습니다.</p>
+                <Button asChild size="sm" variant="outline">
+                  <a href={devLoginUrl}>개발용 로그인 링크 열기</a>
+                </Button>
+              </div>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setIsSent(false)}>
+              다른 이메일로 로그인
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-email">이메일</Label>
+              <Input
+                id="login-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="example@email.com"
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            {errorMessage && (
+              <p className="text-sm text-red-600">{errorMessage}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={!email.trim() || isSubmitting}>
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Mail className="h-4 w-4 mr-2" />
+              )}
+              로그인 링크 받기
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,10 +3,12 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { Home, Shield, Video } from 'lucide-react';
+import { BarChart3, Home, LogOut, Shield, Video } from 'lucide-react';
+import { useSession } from '@/hooks/use-session';
 
 export function Navigation() {
   const pathname = usePathname();
+  const { user, logout } = useSession();
 
   return (
     <nav className="border-b bg-white/95 backdrop-blur supports-[backdrop-filter]:bg-white/60">
@@ -31,6 +33,17 @@ export function Navigation() {
               </Link>
             </Button>
             
+            <Button
+              variant={pathname === '/analytics' ? 'default' : 'ghost'}
+              size="sm"
+              asChild
+            >
+              <Link href="/analytics" className="flex items-center space-x-2">
+                <BarChart3 className="h-4 w-4" />
+                <span>통계</span>
+              </Link>
+            </Button>
+            
             <Button
               variant={pathname === '/admin' ? 'default' : 'outline'}
               size="sm"
@@ -41,6 +54,16 @@ export function Navigation() {
                 <span>관리자</span>
               </Link>
             </Button>
+
+            {user && (
+              <>
+                <span className="hidden sm:inline text-sm text-gray-600 pl-2">{user.email}</span>
+                <Button variant="ghost" size="sm" onClick={logout} className="flex items-center space-x-2">
+                  <LogOut className="h-4 w-4" />
+                  <span>로그아웃</span>
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,312 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookmarkPlus, FileText, Loader2, Share2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { PromptTemplate } from '@/types';
+import { useSession } from '@/hooks/use-session';
+import { usePromptTemplates } from '@/hooks/use-prompt-templates';
+import { canManagePromptTemplate, hasRole } from '@/lib/permissions';
+import { PROMPT_TEMPLATE_LIMITS, extractTemplateVariables, fillTemplate } from '@/lib/prompt-templates';
+
+const NO_TEMPLATE = 'none';
+
+interface PromptTemplatePickerProps {
+  selectedTemplate: PromptTemplate | null;
+  onSelectTemplate: (template: PromptTemplate | null) => void;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  // 템플릿으로 저장할 때 기본 내용으로 사용
+  currentPrompt: string;
+  disabled?: boolean;
+}
+
+export function PromptTemplatePicker({
+  selectedTemplate,
+  onSelectTemplate,
+  values,
+  onValuesChange,
+  currentPrompt,
+  disabled
+}: PromptTemplatePickerProps) {
+  const { user } = useSession();
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = usePromptTemplates();
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState({ name: '', description: '', content: '', isShared: false });
+
+  const canCreate = hasRole(user, 'creator');
+  const ownTemplates = templates.filter(template => template.ownerEmail === user?.email);
+  const sharedTemplates = templates.filter(template => template.ownerEmail !== user?.email);
+  const variables = selectedTemplate ? extractTemplateVariables(selectedTemplate.content) : [];
+  const canManageSelected = !!selectedTemplate && canManagePromptTemplate(user, selectedTemplate.ownerEmail);
+
+  const handleSelect = (value: string) => {
+    const template = templates.find(t => String(t.id) === value) || null;
+    onSelectTemplate(template);
+    onValuesChange({});
+  };
+
+  const openSaveDialog = () => {
+    setDraft({ name: '', description: '', content: currentPrompt.trim(), isShared: false });
+    setIsSaveDialogOpen(true);
+  };
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    try {
+      const created = await createTemplate({
+        name: draft.name,
+        content: draft.content,
+        description: draft.description || undefined,
+        isShared: draft.isShared
+      });
+      toast.success(`'${created.name}' 템플릿을 저장했습니다.`);
+      setIsSaveDialogOpen(false);
+    } catch (error) {
+      toast.error('템플릿 저장에 실패했습니다.', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleShared = async () => {
+    if (!selectedTemplate) return;
+    try {
+      const updated = await updateTemplate(selectedTemplate.id, { isShared: !selectedTemplate.isShared });
+      onSelectTemplate(updated);
+      toast.success(updated.isShared ? '템플릿을 공유했습니다.' : '템플릿 공유를 해제했습니다.');
+    } catch (error) {
+      toast.error('템플릿 공유 설정을 변경하지 못했습니다.', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const removeTemplate = async () => {
+    if (!selectedTemplate) return;
+    try {
+      await deleteTemplate(selectedTemplate.id);
+      onSelectTemplate(null);
+      onValuesChange({});
+      toast.success('템플릿을 삭제했습니다.');
+    } catch (error) {
+      toast.error('템플릿 삭제에 실패했습니다.', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const renderTemplateItem = (template: PromptTemplate) => (
+    <SelectItem key={template.id} value={String(template.id)}>
+      <div className="flex flex-col">
+        <span className="font-medium">{template.name}</span>
+        {template.description && (
+          <span className="text-xs text-muted-foreground">{template.description}</span>
+        )}
+      </div>
+    </SelectItem>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="prompt-template" className="flex items-center gap-2">
+          <FileText className="h-4 w-4" />
+          프롬프트 템플릿 (선택)
+        </Label>
+        {canCreate && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={openSaveDialog}
+            disabled={disabled}
+            className="h-6 px-2 text-xs"
+          >
+            <BookmarkPlus className="mr-1 h-3 w-3" />
+            템플릿으로 저장
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select
+          value={selectedTemplate ? String(selectedTemplate.id) : NO_TEMPLATE}
+          onValueChange={handleSelect}
+          disabled={disabled}
+        >
+          <SelectTrigger id="prompt-template">
+            <SelectValue placeholder="템플릿 선택" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE}>사용 안 함</SelectItem>
+            {ownTemplates.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>내 템플릿</SelectLabel>
+                {ownTemplates.map(renderTemplateItem)}
+              </SelectGroup>
+            )}
+            {sharedTemplates.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>공유된 템플릿</SelectLabel>
+                {sharedTemplates.map(renderTemplateItem)}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        {canManageSelected && (
+          <>
+            <Button
+              type="button"
+              variant={selectedTemplate?.isShared ? 'default' : 'outline'}
+              size="icon"
+              onClick={toggleShared}
+              disabled={disabled}
+              title={selectedTemplate?.isShared ? '공유 해제' : '다른 사용자와 공유'}
+            >
+              <Share2 className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  disabled={disabled}
+                  title="템플릿 삭제"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>템플릿을 삭제하시겠습니까?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    &apos;{selectedTemplate?.name}&apos; 템플릿이 영구적으로 삭제됩니다. 공유된 템플릿이라면 다른 사용자도 더 이상 사용할 수 없습니다.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>취소</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={removeTemplate}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    삭제
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </div>
+
+      {selectedTemplate && (
+        <div className="space-y-3 p-3 border rounded-lg bg-muted/50">
+          {variables.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {variables.map((name) => (
+                <div key={name} className="space-y-1">
+                  <Label htmlFor={`template-variable-${name}`} className="text-xs text-muted-foreground">{name}</Label>
+                  <Input
+                    id={`template-variable-${name}`}
+                    value={values[name] || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => onValuesChange({ ...values, [name]: e.target.value })}
+                    placeholder={`${name} 입력`}
+                    disabled={disabled}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            <strong>템플릿 내용:</strong> {fillTemplate(selectedTemplate.content, values)}
+          </p>
+          {selectedTemplate.ownerEmail !== user?.email && (
+            <p className="text-xs text-muted-foreground">공유한 사용자: {selectedTemplate.ownerEmail}</p>
+          )}
+        </div>
+      )}
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>프롬프트 템플릿 저장</DialogTitle>
+            <DialogDescription>
+              {'{{장소}}'}처럼 중괄호 두 개로 감싼 부분은 비디오를 생성할 때 값을 입력하는 변수가 됩니다.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">이름</Label>
+              <Input
+                id="template-name"
+                value={draft.name}
+                maxLength={PROMPT_TEMPLATE_LIMITS.NAME_MAX_LENGTH}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="예: 시네마틱 드론 샷"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">설명 (선택)</Label>
+              <Input
+                id="template-description"
+                value={draft.description}
+                maxLength={PROMPT_TEMPLATE_LIMITS.DESCRIPTION_MAX_LENGTH}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-content">내용</Label>
+              <Textarea
+                id="template-content"
+                value={draft.content}
+                maxLength={PROMPT_TEMPLATE_LIMITS.CONTENT_MAX_LENGTH}
+                onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+                placeholder="{{장소}} 위를 천천히 비행하는 드론 샷, 황금빛 노을"
+                className="min-h-[100px] resize-none"
+              />
+              {extractTemplateVariables(draft.content).length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  변수: {extractTemplateVariables(draft.content).join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="template-shared" className="text-sm font-medium">다른 사용자와 공유</Label>
+              <Switch
+                id="template-shared"
+                checked={draft.isShared}
+                onCheckedChange={(checked) => setDraft(prev => ({ ...prev, isShared: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsSaveDialogOpen(false)} disabled={isSaving}>
+              취소
+            </Button>
+            <Button
+              type="button"
+              onClick={saveTemplate}
+              disabled={isSaving || !draft.name.trim() || !draft.content.trim()}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              저장
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { DollarSign, Loader2 } from 'lucide-react';
+import { useSession } from '@/hooks/use-session';
+import { hasRole } from '@/lib/permissions';
+import { DEFAULT_TRANSLATION_MODELS, DEFAULT_VIDEO_GENERATION_MODELS, SpendReport } from '@/types';
+
+const RANGE_OPTIONS = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_USERS = 10;
+
+const dailyChartConfig = {
+  videoCostUsd: { label: '비디오 생성', color: 'var(--chart-1)' },
+  translationCostUsd: { label: '번역', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+const userChartConfig = {
+  costUsd: { label: '예상 비용', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const modelChartConfig = {
+  costUsd: { label: '예상 비용', color: 'var(--chart-4)' },
+} satisfies ChartConfig;
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+const getModelName = (model: string) =>
+  [...DEFAULT_VIDEO_GENERATION_MODELS, ...DEFAULT_TRANSLATION_MODELS].find(m => m.id === model)?.name || model;
+
+export function SpendDashboard() {
+  const { user, isLoading: isSessionLoading } = useSession();
+  const [rangeDays, setRangeDays] = useState(30);
+  const [report, setReport] = useState<SpendReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isAdmin = hasRole(user, 'admin');
+
+  const loadReport = useCallback(async (days: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      // 오늘(UTC)까지 포함하도록 to는 내일 0시
+      const now = new Date();
+      const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+      const from = new Date(to.getTime() - days * DAY_MS);
+      const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+
+      const response = await fetch(`/api/admin/costs?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to fetch cost report: ${response.status}`);
+      }
+      setReport(data);
+    } catch (loadError) {
+      console.error('Failed to load cost report:', loadError);
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadReport(rangeDays);
+    }
+  }, [isAdmin, rangeDays, loadReport]);
+
+  // 비용이 없는 날도 0으로 채워 기간 전체를 표시
+  const dailyData = useMemo(() => {
+    if (!report) return [];
+    const byDay = new Map(report.daily.map(row => [row.day, row]));
+    const days = [];
+    for (let time = new Date(report.from).getTime(); time < new Date(report.to).getTime(); time += DAY_MS) {
+      const day = new Date(time).toISOString().slice(0, 10);
+      days.push({
+        day,
+        videoCostUsd: byDay.get(day)?.videoCostUsd || 0,
+        translationCostUsd: byDay.get(day)?.translationCostUsd || 0,
+      });
+    }
+    return days;
+  }, [report]);
+
+  const modelData = useMemo(
+    () => report?.models.map(row => ({ ...row, name: `${getModelName(row.model)} (${row.kind === 'video' ? '생성' : '번역'})` })) || [],
+    [report]
+  );
+
+  if (isSessionLoading) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <Alert>
+        <AlertDescription>관리자만 비용 현황을 볼 수 있습니다.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const videoCount = report?.users.reduce((total, row) => total + row.videoCount, 0) || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {report && `${report.from.slice(0, 10)} ~ ${new Date(new Date(report.to).getTime() - DAY_MS).toISOString().slice(0, 10)} (UTC)`}
+        </div>
+        <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((days) => (
+              <SelectItem key={days} value={String(days)}>최근 {days}일</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>예상 총 비용</CardDescription>
+            <CardTitle className="flex items-center gap-1 text-2xl">
+              <DollarSign className="h-5 w-5" />
+              {(report?.totalCostUsd || 0).toFixed(2)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>비디오 생성 요청</CardDescription>
+            <CardTitle className="text-2xl">{videoCount}건</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>비용이 발생한 사용자</CardDescription>
+            <CardTitle className="text-2xl">{report?.users.length || 0}명</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>일별 비용</CardTitle>
+          <CardDescription>Veo 생성은 생성된 샘플 수 × 길이, 번역은 토큰 수 기준 예상 비용입니다.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={dailyChartConfig} className="h-[300px] w-full">
+            <BarChart data={dailyData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={formatUsd} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="videoCostUsd" stackId="cost" fill="var(--color-videoCostUsd)" />
+              <Bar dataKey="translationCostUsd" stackId="cost" fill="var(--color-translationCostUsd)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>사용자별 비용</CardTitle>
+            <CardDescription>비용이 많은 상위 {TOP_USERS}명</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={userChartConfig} className="h-[300px] w-full">
+              <BarChart data={report?.users.slice(0, TOP_USERS) || []} layout="vertical" margin={{ left: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatUsd} />
+                <YAxis type="category" dataKey="userEmail" tickLine={false} axisLine={false} width={160} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>모델별 비용</CardTitle>
+            <CardDescription>비디오 생성 모델과 번역 모델</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={modelChartConfig} className="h-[300px] w-full">
+              <BarChart data={modelData} layout="vertical" margin={{ left: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatUsd} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={180} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="costUsd" fill="var(--color-costUsd)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { AIModelConfig, DEFAULT_TRANSLATION_MODELS, DEFAULT_VIDEO_GENERATION_MODELS } from '@/types';
+
+interface GenerationConfigDetailsProps {
+  config: AIModelConfig;
+  className?: string;
+}
+
+export function GenerationConfigDetails({ config, className = '' }: GenerationConfigDetailsProps) {
+  const videoModel = DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === config.videoGenerationModel);
+  const translationModel = DEFAULT_TRANSLATION_MODELS.find(m => m.id === config.translationModel);
+
+  const items: { label: string; value: string }[] = [
+    { label: '비디오 모델', value: videoModel?.name || config.videoGenerationModel },
+    { label: '번역 모델', value: translationModel?.name || config.translationModel },
+    { label: '비디오 길이', value: `${config.durationSeconds}초` },
+    { label: '화면비', value: config.aspectRatio },
+    { label: '프롬프트 개선', value: config.enhancePrompt ? '활성화' : '비활성화' },
+    { label: '오디오 생성', value: config.generateAudio ? '활성화' : '비활성화' },
+    { label: '생성 개수', value: `${config.numberOfVideos || 1}개` },
+    { label: '시드', value: config.seed !== undefined ? String(config.seed) : '무작위' },
+    { label: '첫 프레임 이미지', value: config.firstFrameImage ? '사용' : '없음' },
+    { label: '마지막 프레임 이미지', value: config.lastFrameImage ? '사용' : '없음' },
+  ];
+
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+        {items.map(item => (
+          <p key={item.label}>
+            <strong>{item.label}:</strong> {item.value}
+          </p>
+        ))}
+      </div>
+      <p className="break-words">
+        <strong>네거티브 프롬프트:</strong> {config.negativePrompt || '없음'}
+      </p>
+    </div>
+  );
+}
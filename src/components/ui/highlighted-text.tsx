@@ -0,0 +1,25 @@
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+  className?: string;
+}
+
+// 검색어와 일치하는 부분을 대소문자 구분 없이 강조 표시
+export function HighlightedText({ text, query, className = 'bg-yellow-200 text-inherit rounded-sm px-0.5' }: HighlightedTextProps) {
+  const trimmed = query?.trim();
+  if (!trimmed) {
+    return <>{text}</>;
+  }
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // 캡처 그룹으로 분리하면 홀수 인덱스가 일치한 부분
+  const parts = text.split(new RegExp(`(${escaped})`, 'gi'));
+
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1 ? (
+        <mark key={index} className={className}>{part}</mark>
+      ) : part)}
+    </>
+  );
+}
@@ -1,15 +1,18 @@
 import { Badge } from './badge';
 import { getStatusInfo } from '@/lib/constants';
 import { VideoGenerationResult } from '@/types';
+import { GenerationProgress, formatElapsedTime } from '@/lib/video-utils';
 import { Loader2 } from 'lucide-react';
 
 interface StatusBadgeProps {
   status: VideoGenerationResult['status'];
   showLoader?: boolean;
   className?: string;
+  // 진행 중일 때 예상 남은 시간 표시
+  progress?: GenerationProgress | null;
 }
 
-export function StatusBadge({ status, showLoader = false, className }: StatusBadgeProps) {
+export function StatusBadge({ status, showLoader = false, className, progress }: StatusBadgeProps) {
   const statusInfo = getStatusInfo(status);
   
   return (
@@ -17,10 +20,15 @@ export function StatusBadge({ status, showLoader = false, className }: StatusBad
       variant={statusInfo.variant} 
       className={`flex items-center gap-1 ${className}`}
     >
-      {showLoader && status !== 'completed' && status !== 'error' && (
+      {showLoader && status !== 'completed' && status !== 'error' && status !== 'cancelled' && (
         <Loader2 className="h-3 w-3 animate-spin" />
       )}
       {statusInfo.text}
+      {progress && (
+        <span className="font-normal tabular-nums">
+          · {progress.remainingMs > 0 ? `약 ${formatElapsedTime(progress.remainingMs)} 남음` : '곧 완료'}
+        </span>
+      )}
     </Badge>
   );
 } 
\ No newline at end of file
@@ -1,6 +1,6 @@
-import { VideoGenerationResult } from '@/types';
+import { DEFAULT_VIDEO_GENERATION_MODELS, VideoGenerationResult } from '@/types';
 import { isValidResolution } from '@/lib/video-utils';
-import { Clock, Monitor } from 'lucide-react';
+import { Clock, Cpu, Monitor } from 'lucide-react';
 
 interface VideoMetadataProps {
   result: VideoGenerationResult;
@@ -9,8 +9,12 @@ interface VideoMetadataProps {
 
 export function VideoMetadata({ result, className = '' }: VideoMetadataProps) {
   const validResolution = isValidResolution(result.resolution) ? result.resolution : undefined;
+  const modelName = result.generationConfig
+    ? DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === result.generationConfig?.videoGenerationModel)?.name
+      || result.generationConfig.videoGenerationModel
+    : undefined;
   
-  if (!result.duration && !validResolution) {
+  if (!result.duration && !validResolution && !modelName) {
     return null;
   }
 
@@ -28,6 +32,12 @@ export function VideoMetadata({ result, className = '' }: VideoMetadataProps) {
           {validResolution}
         </span>
       )}
+      {modelName && (
+        <span className="bg-black/80 text-white px-2 py-1 rounded flex items-center gap-1">
+          <Cpu className="h-3 w-3" />
+          {modelName}
+        </span>
+      )}
     </div>
   );
 } 
\ No newline at end of file
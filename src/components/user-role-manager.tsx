@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSession } from '@/hooks/use-session';
+import { hasRole } from '@/lib/permissions';
+import { USER_ROLES, UserRole } from '@/types';
+
+interface ManagedUser {
+  id: number;
+  email: string;
+  role: UserRole;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '뷰어 (조회만 가능)',
+  creator: '크리에이터 (생성 및 본인 비디오 관리)',
+  admin: '관리자 (전체 관리)',
+};
+
+export function UserRoleManager() {
+  const { user, isLoading: isSessionLoading } = useSession();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [updatingUserId, setUpdatingUserId] = useState<number | null>(null);
+  const isAdmin = hasRole(user, 'admin');
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch users: ${response.status}`);
+      }
+      const data = await response.json();
+      setUsers(data.users || []);
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadUsers();
+    }
+  }, [isAdmin, loadUsers]);
+
+  const updateRole = async (userId: number, role: UserRole) => {
+    setUpdatingUserId(userId);
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, role }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '역할을 변경하지 못했습니다.');
+      }
+      setUsers(prev => prev.map(u => u.id === userId ? { ...u, role: data.role } : u));
+      toast.success(`${data.email}의 역할을 변경했습니다.`);
+    } catch (error) {
+      toast.error('역할 변경에 실패했습니다.', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  if (isSessionLoading || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          사용자 역할 관리
+        </CardTitle>
+        <CardDescription>
+          로그인한 적이 있는 사용자의 역할을 변경할 수 있습니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {users.length === 0 ? (
+          <Alert>
+            <AlertDescription>등록된 사용자가 없습니다.</AlertDescription>
+          </Alert>
+        ) : (
+          users.map((managedUser) => (
+            <div key={managedUser.id} className="flex items-center justify-between gap-4 p-3 bg-white rounded-lg border">
+              <span className="text-sm font-medium truncate">{managedUser.email}</span>
+              <Select
+                value={managedUser.role}
+                onValueChange={(role) => updateRole(managedUser.id, role as UserRole)}
+                disabled={managedUser.id === user?.id || updatingUserId === managedUser.id}
+              >
+                <SelectTrigger className="w-[280px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Loader2 } from 'lucide-react';
+import { DEFAULT_VIDEO_GENERATION_MODELS, VideoStats } from '@/types';
+
+const PRESET_DAYS = [7, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dailyChartConfig = {
+  completed: { label: '완료', color: 'var(--chart-2)' },
+  failed: { label: '오류', color: 'var(--chart-1)' },
+  other: { label: '진행 중/취소', color: 'var(--chart-4)' },
+  successRatePercent: { label: '성공률(%)', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const modelChartConfig = {
+  medianMinutes: { label: '생성 시간 중앙값(분)', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+const errorChartConfig = {
+  count: { label: '오류 수', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+// 날짜 입력값(YYYY-MM-DD, UTC)
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatRate = (rate: number | null) => rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return '-';
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}분 ${Math.round(seconds % 60)}초` : `${Math.round(seconds)}초`;
+};
+
+const getModelName = (model: string) => DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === model)?.name || model;
+
+// 최근 days일 (오늘 포함)
+const getPresetRange = (days: number) => {
+  const today = new Date();
+  return { from: toDateInput(new Date(today.getTime() - (days - 1) * DAY_MS)), to: toDateInput(today) };
+};
+
+export function VideoAnalyticsDashboard() {
+  const [range, setRange] = useState(() => getPresetRange(30));
+  const [stats, setStats] = useState<VideoStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async (from: string, to: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      // 종료일을 포함하도록 API에는 다음 날 0시(UTC)를 전달
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00:00Z`).toISOString(),
+        to: new Date(new Date(`${to}T00:00:00Z`).getTime() + DAY_MS).toISOString(),
+      });
+      const response = await fetch(`/api/videos/stats?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to fetch video statistics: ${response.status}`);
+      }
+      setStats(data);
+    } catch (loadError) {
+      console.error('Failed to load video statistics:', loadError);
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (range.from && range.to && range.from <= range.to) {
+      loadStats(range.from, range.to);
+    }
+  }, [range, loadStats]);
+
+  // 비디오가 없는 날도 0으로 채워 기간 전체를 표시
+  const dailyData = useMemo(() => {
+    if (!stats) return [];
+    const byDay = new Map(stats.daily.map(row => [row.day, row]));
+    const days = [];
+    for (let time = new Date(stats.from).getTime(); time < new Date(stats.to).getTime(); time += DAY_MS) {
+      const day = new Date(time).toISOString().slice(0, 10);
+      const row = byDay.get(day);
+      days.push({
+        day,
+        completed: row?.completed || 0,
+        failed: row?.failed || 0,
+        other: row ? row.total - row.completed - row.failed : 0,
+        successRatePercent: row?.successRate != null ? Math.round(row.successRate * 1000) / 10 : null,
+      });
+    }
+    return days;
+  }, [stats]);
+
+  const modelData = useMemo(
+    () => stats?.models
+      .filter(row => row.medianGenerationSeconds !== null)
+      .map(row => ({ name: getModelName(row.model), medianMinutes: Math.round(row.medianGenerationSeconds! / 6) / 10 })) || [],
+    [stats]
+  );
+
+  const isRangeInvalid = !range.from || !range.to || range.from > range.to;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="analytics-from">시작일 (UTC)</Label>
+          <Input
+            id="analytics-from"
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="analytics-to">종료일 (UTC)</Label>
+          <Input
+            id="analytics-to"
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+          />
+        </div>
+        <div className="flex gap-2">
+          {PRESET_DAYS.map((days) => (
+            <Button key={days} variant="outline" size="sm" onClick={() => setRange(getPresetRange(days))}>
+              최근 {days}일
+            </Button>
+          ))}
+        </div>
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
+
+      {isRangeInvalid && (
+        <p className="text-sm text-amber-600">시작일은 종료일보다 늦을 수 없습니다.</p>
+      )}
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>기간 내 생성 요청</CardDescription>
+            <CardTitle className="text-2xl">{stats?.summary.total ?? 0}건</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>성공률</CardDescription>
+            <CardTitle className="text-2xl">{formatRate(stats?.summary.successRate ?? null)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>기간 내 오류</CardDescription>
+            <CardTitle className="text-2xl text-red-600">{stats?.summary.failed ?? 0}건</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>현재 진행 중</CardDescription>
+            <CardTitle className="text-2xl">{stats?.progressingVideos.total ?? 0}건</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>일별 생성 결과</CardTitle>
+          <CardDescription>요청 날짜 기준이며, 한 번에 여러 개를 생성한 경우 한 건으로 셉니다.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={dailyChartConfig} className="h-[320px] w-full">
+            <ComposedChart data={dailyData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+              <YAxis yAxisId="count" tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+              <YAxis yAxisId="rate" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} unit="%" width={48} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar yAxisId="count" dataKey="completed" stackId="videos" fill="var(--color-completed)" />
+              <Bar yAxisId="count" dataKey="failed" stackId="videos" fill="var(--color-failed)" />
+              <Bar yAxisId="count" dataKey="other" stackId="videos" fill="var(--color-other)" radius={[4, 4, 0, 0]} />
+              <Line yAxisId="rate" dataKey="successRatePercent" type="monotone" stroke="var(--color-successRatePercent)" strokeWidth={2} dot={false} connectNulls />
+            </ComposedChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>모델별 생성 시간</CardTitle>
+            <CardDescription>요청부터 완료까지 걸린 시간의 중앙값</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ChartContainer config={modelChartConfig} className="h-[220px] w-full">
+              <BarChart data={modelData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="medianMinutes" fill="var(--color-medianMinutes)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>모델</TableHead>
+                  <TableHead className="text-right">요청</TableHead>
+                  <TableHead className="text-right">성공률</TableHead>
+                  <TableHead className="text-right">중앙값</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats?.models.map((row) => (
+                  <TableRow key={row.model}>
+                    <TableCell>{getModelName(row.model)}</TableCell>
+                    <TableCell className="text-right">{row.total}</TableCell>
+                    <TableCell className="text-right">{formatRate(row.successRate)}</TableCell>
+                    <TableCell className="text-right">{formatSeconds(row.medianGenerationSeconds)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>오류 유형</CardTitle>
+            <CardDescription>오류 메시지를 유형별로 분류한 건수</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stats && stats.errorCategories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">기간 내 오류가 없습니다.</p>
+            ) : (
+              <ChartContainer config={errorChartConfig} className="h-[320px] w-full">
+                <BarChart data={stats?.errorCategories || []} layout="vertical" margin={{ left: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} allowDecimals={false} />
+                  <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={140} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Layers, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { VideoBatch } from '@/types';
+import { isBatchInProgress } from '@/hooks/use-video-batches';
+
+interface VideoBatchPanelProps {
+  batches: VideoBatch[];
+  // 목록이 이 배치로 필터링되어 있으면 강조
+  activeBatchId?: string;
+  onSelectBatch: (batchId?: string) => void;
+}
+
+export function VideoBatchPanel({ batches, activeBatchId, onSelectBatch }: VideoBatchPanelProps) {
+  if (batches.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Layers className="h-5 w-5" />
+          내 배치 진행 상황
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {batches.map((batch) => {
+          const finished = batch.completed + batch.failed + batch.cancelled;
+          const isActive = batch.batchId === activeBatchId;
+
+          return (
+            <div
+              key={batch.batchId}
+              className={`space-y-2 rounded-lg border p-3 ${isActive ? 'border-blue-500 bg-blue-50/50' : ''}`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  {isBatchInProgress(batch) && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
+                  <span className="font-medium">{format(new Date(batch.createdAt), 'yyyy-MM-dd HH:mm')}</span>
+                  <span className="text-muted-foreground">{finished} / {batch.total}개 처리됨</span>
+                </div>
+                <Button
+                  variant={isActive ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onSelectBatch(isActive ? undefined : batch.batchId)}
+                >
+                  {isActive ? '전체 목록 보기' : '이 배치만 보기'}
+                </Button>
+              </div>
+              <Progress value={batch.total > 0 ? (finished / batch.total) * 100 : 0} className="h-2" />
+              <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                <span>대기 {batch.pending}</span>
+                <span>진행 중 {batch.inProgress}</span>
+                <span className="text-green-600">완료 {batch.completed}</span>
+                {batch.failed > 0 && <span className="text-red-600">오류 {batch.failed}</span>}
+                {batch.cancelled > 0 && <span>취소 {batch.cancelled}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,18 +3,52 @@
 import { useVideoGeneration } from '@/hooks/use-video-generation';
 import { VideoPromptForm } from './video-prompt-form';
 import { VideoResultCard } from './video-result-card';
+import { VideoFilterBar, VideoFilterValues, VIDEO_FILTER_KEYS, toCreatedAtRange } from './video-filter-bar';
+import { VideoBatchPanel } from './video-batch-panel';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious, PaginationEllipsis } from '@/components/ui/pagination';
-import { Trash2, Video, Check, X, Loader2 } from 'lucide-react';
-import { useState, useEffect, useRef } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, Video, Check, X, Loader2, Layers, User, Users, UserSearch, Search, ListOrdered, ChevronsDown } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { toast } from 'sonner';
 import { Logger } from '@/lib/logger';
+import { UI_CONFIG } from '@/lib/constants';
+import { useSession } from '@/hooks/use-session';
+import { useVideoBatches } from '@/hooks/use-video-batches';
+import { useVideoQueue } from '@/hooks/use-video-queue';
+import type { BatchPromptRow } from '@/lib/batch-import';
+import { canManageVideo, hasRole } from '@/lib/permissions';
+import { AIModelConfig, DEFAULT_AI_MODEL_CONFIG, DEFAULT_VIDEO_GENERATION_MODELS, VideoGenerationResult } from '@/types';
+
+type CreatorScope = 'mine' | 'everyone' | 'person';
 
 export function VideoDashboard() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // 작성자 필터는 URL(?creator=me 또는 ?creator=<email>)에 유지
+  const creatorParam = searchParams.get('creator') || undefined;
+  const [creatorScope, setCreatorScope] = useState<CreatorScope>(
+    creatorParam === 'me' ? 'mine' : creatorParam ? 'person' : 'everyone'
+  );
+  // 검색어는 입력 후 잠시 멈추면 URL(?q=)에 반영되어 조회
+  const queryParam = searchParams.get('q') || undefined;
+  const [searchInput, setSearchInput] = useState(queryParam || '');
+  const [creators, setCreators] = useState<{ userEmail: string; videoCount: number }[]>([]);
+  // 상태/생성일/모델/해상도/길이/오디오 필터도 URL에 유지
+  const filterValues: VideoFilterValues = Object.fromEntries(
+    VIDEO_FILTER_KEYS.map(key => [key, searchParams.get(key) || undefined])
+  );
+  // 배치 가져오기로 함께 제출한 비디오만 보기 (?batch=<batchId>)
+  const batchParam = searchParams.get('batch') || undefined;
+  // 목록 보기 방식 (?feed=infinite이면 무한 스크롤, 아니면 페이지 단위)
+  const infiniteScroll = searchParams.get('feed') === 'infinite';
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
   const { 
     results, 
     isLoading, 
@@ -27,17 +61,26 @@ export function VideoDashboard() {
     totalPages,
     hasMore,
     changePage,
+    loadMoreVideos,
     generateVideo, 
     clearResults,
     toggleVideoSelection,
     selectAllVideos,
     deselectAllVideos,
-    deleteSelectedVideos
-  } = useVideoGeneration();
+    deleteSelectedVideos,
+    cancelGeneration,
+    regenerateVideo
+  } = useVideoGeneration(
+    { creator: creatorParam, q: queryParam, batch: batchParam, ...filterValues, ...toCreatedAtRange(filterValues) },
+    { infiniteScroll }
+  );
+  const { user } = useSession();
+  const canCreate = hasRole(user, 'creator');
+  const { batches, submitBatch } = useVideoBatches();
+  const { queue, expediteVideo } = useVideoQueue(results.some(result => result.status === 'queued'));
   const [isMounted, setIsMounted] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isClearAllDialogOpen, setIsClearAllDialogOpen] = useState(false);
-  const [deleteKey, setDeleteKey] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
   const selectAllCheckboxRef = useRef<any>(null);
 
@@ -59,19 +102,16 @@ export function VideoDashboard() {
 
 
   const handleDeleteSelected = async () => {
-    if (!deleteKey) {
-      toast.error('삭제 키를 입력해주세요.');
-      return;
-    }
     setIsDeleting(true);
     const toastId = toast.loading('선택한 비디오를 삭제 중입니다...');
     try {
-      await deleteSelectedVideos(deleteKey);
+      await deleteSelectedVideos();
       toast.success('선택한 비디오를 성공적으로 삭제했습니다.', { id: toastId });
       setIsDeleteDialogOpen(false);
-      setDeleteKey('');
-      // Refresh current page data
-      changePage(currentPage);
+      // Refresh current page data (무한 스크롤은 목록에서 이미 제거되었으므로 위치 유지)
+      if (!infiniteScroll) {
+        changePage(currentPage);
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.';
       toast.error('삭제에 실패했습니다.', {
@@ -85,17 +125,12 @@ export function VideoDashboard() {
   };
 
   const handleClearAll = async () => {
-    if (!deleteKey) {
-      toast.error('삭제 키를 입력해주세요.');
-      return;
-    }
     setIsDeleting(true);
     const toastId = toast.loading('모든 비디오를 삭제 중입니다...');
     try {
-      await clearResults(deleteKey);
+      await clearResults();
       toast.success('모든 비디오를 성공적으로 삭제했습니다.', { id: toastId });
       setIsClearAllDialogOpen(false);
-      setDeleteKey('');
       // Go back to first page after clearing all
       changePage(1);
     } catch (error) {
@@ -110,6 +145,150 @@ export function VideoDashboard() {
     }
   };
 
+  const updateSearchParams = useCallback((updates: Record<string, string | undefined>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    }
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [searchParams, pathname, router]);
+
+  const updateSearchParam = useCallback(
+    (key: string, value?: string) => updateSearchParams({ [key]: value }),
+    [updateSearchParams]
+  );
+
+  const updateCreatorParam = (creator?: string) => updateSearchParam('creator', creator);
+
+  useEffect(() => {
+    const trimmed = searchInput.trim();
+    if (trimmed === (queryParam || '')) return;
+    const timer = setTimeout(() => updateSearchParam('q', trimmed || undefined), UI_CONFIG.SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, queryParam, updateSearchParam]);
+
+  const handleCreatorScopeChange = (scope: CreatorScope) => {
+    setCreatorScope(scope);
+    if (scope === 'mine') {
+      updateCreatorParam('me');
+    } else if (scope === 'everyone') {
+      updateCreatorParam(undefined);
+    }
+    // 사용자별 보기는 사용자를 선택할 때 URL에 반영
+  };
+
+  // 사용자별 보기에서 선택할 수 있는 작성자 목록
+  useEffect(() => {
+    if (creatorScope !== 'person') return;
+    fetch('/api/videos/creators')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Failed to fetch creators: ${response.status}`)))
+      .then(data => setCreators(data.creators || []))
+      .catch(error => Logger.warn('Client - Failed to load video creators', { error: error instanceof Error ? error.message : error }));
+  }, [creatorScope]);
+
+  const handleBatchSubmit = async (rows: BatchPromptRow[], config: AIModelConfig) => {
+    const { batchId, count } = await submitBatch(rows, config);
+    toast.success(`${count}개 프롬프트를 배치로 제출했습니다.`);
+    // 방금 제출한 배치만 목록에 표시
+    updateSearchParam('batch', batchId);
+  };
+
+  const handleExtendVideo = async (video: VideoGenerationResult, koreanPrompt: string) => {
+    // 비디오 확장을 지원하는 모델로 연장 생성
+    // 원본과 같은 화면비를 지원해야 함
+    const aspectRatio = video.generationConfig?.aspectRatio || DEFAULT_AI_MODEL_CONFIG.aspectRatio;
+    const extensionModel = DEFAULT_VIDEO_GENERATION_MODELS.find(
+      m => m.capabilities.supportsVideoExtension && m.capabilities.aspectRatios.includes(aspectRatio)
+    );
+    if (!extensionModel) {
+      toast.error('비디오 연장을 지원하는 모델이 없습니다.');
+      return;
+    }
+
+    const { min, max } = extensionModel.capabilities.durationRange;
+    const config: AIModelConfig = {
+      ...DEFAULT_AI_MODEL_CONFIG,
+      videoGenerationModel: extensionModel.id,
+      aspectRatio,
+      durationSeconds: Math.min(Math.max(DEFAULT_AI_MODEL_CONFIG.durationSeconds, min), max),
+    };
+
+    await generateVideo(koreanPrompt, config, video.id);
+  };
+
+  const handleCancelGeneration = async (videoId: string) => {
+    try {
+      await cancelGeneration(videoId);
+      toast.success('영상 생성을 취소했습니다.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.';
+      toast.error('취소에 실패했습니다.', {
+        description: errorMessage,
+      });
+      Logger.warn('Client - handleCancelGeneration failed', { videoId, error: errorMessage });
+    }
+  };
+
+  const handleExpediteGeneration = async (videoId: string) => {
+    try {
+      await expediteVideo(videoId);
+      toast.success('대기열에서 우선 처리하도록 변경했습니다.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.';
+      toast.error('우선 처리에 실패했습니다.', {
+        description: errorMessage,
+      });
+      Logger.warn('Client - handleExpediteGeneration failed', { videoId, error: errorMessage });
+    }
+  };
+
+  // 같은 생성 그룹의 샘플 비디오를 묶어 나란히 비교할 수 있도록 그룹화
+  // 무한 스크롤: 목록 끝의 감시 요소가 화면에 들어오면 다음 페이지를 불러옴
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!infiniteScroll || !hasMore || !sentinel) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreVideos();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [infiniteScroll, hasMore, loadMoreVideos]);
+
+  const resultGroups = results.reduce<VideoGenerationResult[][]>((groups, result) => {
+    const groupKey = result.generationGroupId || result.id;
+    const group = groups.find(g => (g[0].generationGroupId || g[0].id) === groupKey);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.push([result]);
+    }
+    return groups;
+  }, []);
+
+  const renderResultCard = (result: VideoGenerationResult) => (
+    <VideoResultCard 
+      key={result.id} 
+      result={result}
+      isSelected={selectedIds.includes(result.id)}
+      onToggleSelection={toggleVideoSelection}
+      onCancel={canManageVideo(user, result.userEmail) ? handleCancelGeneration : undefined}
+      onExtend={canCreate ? handleExtendVideo : undefined}
+      onRegenerate={canCreate ? regenerateVideo : undefined}
+      parentResult={result.parentVideoId ? results.find(r => r.id === result.parentVideoId) : undefined}
+      highlightQuery={queryParam}
+      queuePosition={queue?.positions[result.id]}
+      isExpedited={queue?.expedited.includes(result.id)}
+      onExpedite={hasRole(user, 'admin') ? handleExpediteGeneration : undefined}
+    />
+  );
+
   if (!isMounted) {
     return (
       <div className="min-h-screen bg-white p-4">
@@ -160,7 +339,101 @@ export function VideoDashboard() {
 
         {/* Form Section */}
         <div className="flex justify-center">
-          <VideoPromptForm onSubmit={generateVideo} isLoading={isLoading} />
+          {user && !canCreate ? (
+            <Alert className="w-full max-w-2xl">
+              <AlertDescription>
+                조회 전용(뷰어) 계정입니다. 비디오를 생성하려면 관리자에게 크리에이터 역할을 요청하세요.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <VideoPromptForm onSubmit={generateVideo} onBatchSubmit={handleBatchSubmit} isLoading={isLoading} />
+          )}
+        </div>
+
+        {/* Batch Progress */}
+        <VideoBatchPanel
+          batches={batches}
+          activeBatchId={batchParam}
+          onSelectBatch={(batchId) => updateSearchParam('batch', batchId)}
+        />
+
+        {/* Search & Creator Filter */}
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative w-full sm:w-72">
+            <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="프롬프트 검색 (한국어/영어)"
+              className="pl-8 h-8"
+              aria-label="프롬프트 검색"
+            />
+          </div>
+          <Button
+            variant={creatorScope === 'mine' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleCreatorScopeChange('mine')}
+          >
+            <User className="mr-2 h-4 w-4" />
+            내 비디오
+          </Button>
+          <Button
+            variant={creatorScope === 'everyone' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleCreatorScopeChange('everyone')}
+          >
+            <Users className="mr-2 h-4 w-4" />
+            전체
+          </Button>
+          <Button
+            variant={creatorScope === 'person' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleCreatorScopeChange('person')}
+          >
+            <UserSearch className="mr-2 h-4 w-4" />
+            사용자별
+          </Button>
+          {creatorScope === 'person' && (
+            <Select
+              value={creatorParam && creatorParam !== 'me' ? creatorParam : undefined}
+              onValueChange={(email) => updateCreatorParam(email)}
+            >
+              <SelectTrigger className="w-[280px] h-8">
+                <SelectValue placeholder="사용자를 선택하세요" />
+              </SelectTrigger>
+              <SelectContent>
+                {creators.map((creator) => (
+                  <SelectItem key={creator.userEmail} value={creator.userEmail}>
+                    {creator.userEmail} ({creator.videoCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {/* Advanced Filters & Feed Mode */}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <VideoFilterBar values={filterValues} onChange={updateSearchParams} />
+          <div className="flex items-center gap-2">
+            <Button
+              variant={infiniteScroll ? 'outline' : 'default'}
+              size="sm"
+              onClick={() => updateSearchParam('feed', undefined)}
+            >
+              <ListOrdered className="mr-2 h-4 w-4" />
+              페이지
+            </Button>
+            <Button
+              variant={infiniteScroll ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => updateSearchParam('feed', 'infinite')}
+            >
+              <ChevronsDown className="mr-2 h-4 w-4" />
+              무한 스크롤
+            </Button>
+          </div>
         </div>
 
         {/* Results Section */}
@@ -196,7 +469,7 @@ export function VideoDashboard() {
                 )}
 
                 {/* Action Buttons */}
-                {selectedIds.length > 0 && (
+                {selectedIds.length > 0 && canCreate && (
                   <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
                     <AlertDialogTrigger asChild>
                       <Button
@@ -212,25 +485,11 @@ export function VideoDashboard() {
                       <AlertDialogHeader>
                         <AlertDialogTitle>선택한 비디오를 삭제하시겠습니까?</AlertDialogTitle>
                         <AlertDialogDescription>
-                          선택된 {selectedIds.length}개의 비디오가 영구적으로 삭제됩니다. 이 작업은 되돌릴 수 없습니다. 삭제하려면 관리자 키를 입력하세요.
+                          선택된 {selectedIds.length}개의 비디오가 영구적으로 삭제됩니다. 이 작업은 되돌릴 수 없습니다. 본인이 생성한 비디오만 삭제할 수 있습니다.
                         </AlertDialogDescription>
                       </AlertDialogHeader>
-                      <div className="py-4">
-                        <Input 
-                          type="password"
-                          placeholder="삭제 키 입력"
-                          value={deleteKey}
-                          onChange={(e) => setDeleteKey(e.target.value)}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              e.preventDefault();
-                              handleDeleteSelected();
-                            }
-                          }}
-                        />
-                      </div>
                       <AlertDialogFooter>
-                        <AlertDialogCancel onClick={() => setDeleteKey('')}>취소</AlertDialogCancel>
+                        <AlertDialogCancel>취소</AlertDialogCancel>
                         <AlertDialogAction
                           onClick={handleDeleteSelected}
                           disabled={isDeleting}
@@ -244,66 +503,74 @@ export function VideoDashboard() {
                   </AlertDialog>
                 )}
                 
-                <AlertDialog open={isClearAllDialogOpen} onOpenChange={setIsClearAllDialogOpen}>
-                  <AlertDialogTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      모두 삭제
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>모든 비디오를 삭제하시겠습니까?</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        총 {totalCount}개의 모든 비디오가 영구적으로 삭제됩니다. 이 작업은 되돌릴 수 없습니다. 삭제하려면 관리자 키를 입력하세요.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <div className="py-4">
-                      <Input 
-                        type="password"
-                        placeholder="삭제 키 입력"
-                        value={deleteKey}
-                        onChange={(e) => setDeleteKey(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            e.preventDefault();
-                            handleClearAll();
-                          }
-                        }}
-                      />
-                    </div>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel onClick={() => setDeleteKey('')}>취소</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={handleClearAll}
-                        disabled={isDeleting}
-                        className="bg-red-600 hover:bg-red-700 text-white"
+                {hasRole(user, 'admin') && (
+                  <AlertDialog open={isClearAllDialogOpen} onOpenChange={setIsClearAllDialogOpen}>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
                       >
-                        {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        <Trash2 className="mr-2 h-4 w-4" />
                         모두 삭제
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>모든 비디오를 삭제하시겠습니까?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          총 {totalCount}개의 모든 비디오가 영구적으로 삭제됩니다. 이 작업은 되돌릴 수 없습니다.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>취소</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={handleClearAll}
+                          disabled={isDeleting}
+                          className="bg-red-600 hover:bg-red-700 text-white"
+                        >
+                          {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          모두 삭제
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
               </div>
             </div>
 
             <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
-              {results.map((result) => (
-                <VideoResultCard 
-                  key={result.id} 
-                  result={result}
-                  isSelected={selectedIds.includes(result.id)}
-                  onToggleSelection={toggleVideoSelection}
-                />
-              ))}
+              {resultGroups.map((group) => group.length > 1 ? (
+                <div key={group[0].generationGroupId} className="lg:col-span-2 rounded-lg border border-dashed p-4 space-y-3">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Layers className="h-4 w-4" />
+                    같은 프롬프트의 변형 {group.length}개
+                  </div>
+                  <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2">
+                    {group.map(renderResultCard)}
+                  </div>
+                </div>
+              ) : renderResultCard(group[0]))}
             </div>
 
-            {totalPages > 1 && (
+            {infiniteScroll && (
+              <div ref={loadMoreSentinelRef} className="flex justify-center py-6 text-sm text-gray-500">
+                {isAppending ? (
+                  <span className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    더 불러오는 중...
+                  </span>
+                ) : hasMore ? (
+                  <Button variant="outline" size="sm" onClick={() => loadMoreVideos()}>
+                    더 보기
+                  </Button>
+                ) : (
+                  '모든 비디오를 불러왔습니다'
+                )}
+              </div>
+            )}
+
+            {!infiniteScroll && totalPages > 1 && (
               <div className="flex justify-center mt-6">
                 <Pagination>
                   <PaginationContent>
@@ -396,7 +663,7 @@ export function VideoDashboard() {
           <div className="text-center py-12">
             <Video className="mx-auto h-16 w-16 text-gray-400 mb-4" />
             <h3 className="text-xl font-medium text-gray-900 mb-2">
-              아직 생성된 비디오가 없습니다
+              {queryParam ? `"${queryParam}"에 해당하는 비디오가 없습니다` : batchParam || VIDEO_FILTER_KEYS.some(key => filterValues[key]) ? '필터 조건에 맞는 비디오가 없습니다' : creatorParam ? '선택한 사용자의 비디오가 없습니다' : '아직 생성된 비디오가 없습니다'}
             </h3>
             <p className="text-gray-600 mb-6">
               위의 폼에서 한국어 프롬프트를 입력하여 첫 번째 비디오를 생성해보세요.
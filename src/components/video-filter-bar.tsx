@@ -0,0 +1,192 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarIcon, ListFilter, RotateCcw } from 'lucide-react';
+import { addDays, format, isValid, parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { STATUS_INFO, VIDEO_STATUS } from '@/lib/constants';
+import { DEFAULT_VIDEO_GENERATION_MODELS } from '@/types';
+
+// URL에 저장되는 필터 값 (from/to는 yyyy-MM-dd, to는 해당 날짜 포함)
+export interface VideoFilterValues {
+  status?: string;
+  from?: string;
+  to?: string;
+  model?: string;
+  resolution?: string;
+  duration?: string;
+  hasAudio?: string;
+}
+
+export const VIDEO_FILTER_KEYS = ['status', 'from', 'to', 'model', 'resolution', 'duration', 'hasAudio'] as const;
+
+const ALL_VALUE = 'all';
+const DATE_FORMAT = 'yyyy-MM-dd';
+const RESOLUTION_OPTIONS = ['1280x720', '720x1280', '1920x1080', '1080x1920'];
+const DURATION_OPTIONS = Array.from(
+  new Set(DEFAULT_VIDEO_GENERATION_MODELS.flatMap(model => {
+    const { min, max } = model.capabilities.durationRange;
+    return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  }))
+).sort((a, b) => a - b);
+
+const parseDate = (value?: string): Date | undefined => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+};
+
+// 로컬 날짜 범위를 API용 created_at 범위로 변환 (from 포함, to 다음 날 0시 미만)
+export function toCreatedAtRange(values: Pick<VideoFilterValues, 'from' | 'to'>): { from?: string; to?: string } {
+  const from = parseDate(values.from);
+  const to = parseDate(values.to);
+  return {
+    from: from?.toISOString(),
+    to: to ? addDays(to, 1).toISOString() : undefined
+  };
+}
+
+interface VideoFilterBarProps {
+  values: VideoFilterValues;
+  onChange: (updates: Partial<VideoFilterValues>) => void;
+}
+
+export function VideoFilterBar({ values, onChange }: VideoFilterBarProps) {
+  const selectedStatuses = values.status ? values.status.split(',') : [];
+  const dateRange: DateRange | undefined = values.from || values.to
+    ? { from: parseDate(values.from), to: parseDate(values.to) }
+    : undefined;
+  const hasActiveFilters = VIDEO_FILTER_KEYS.some(key => values[key]);
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    const next = checked
+      ? [...selectedStatuses, status]
+      : selectedStatuses.filter(s => s !== status);
+    onChange({ status: next.length > 0 ? next.join(',') : undefined });
+  };
+
+  const handleDateRangeChange = (range?: DateRange) => {
+    onChange({
+      from: range?.from ? format(range.from, DATE_FORMAT) : undefined,
+      to: range?.to ? format(range.to, DATE_FORMAT) : undefined
+    });
+  };
+
+  const handleSelectChange = (key: 'model' | 'resolution' | 'duration' | 'hasAudio') => (value: string) => {
+    onChange({ [key]: value === ALL_VALUE ? undefined : value });
+  };
+
+  const resetFilters = () => {
+    onChange(Object.fromEntries(VIDEO_FILTER_KEYS.map(key => [key, undefined])));
+  };
+
+  const dateLabel = dateRange?.from
+    ? `${format(dateRange.from, DATE_FORMAT)} ~ ${dateRange.to ? format(dateRange.to, DATE_FORMAT) : ''}`
+    : '생성일';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {/* 상태 (복수 선택) */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant={selectedStatuses.length > 0 ? 'default' : 'outline'} size="sm">
+            <ListFilter className="mr-2 h-4 w-4" />
+            상태{selectedStatuses.length > 0 && ` (${selectedStatuses.length})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-48 p-2" align="start">
+          {Object.values(VIDEO_STATUS).map((status) => (
+            <label key={status} className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-100 cursor-pointer">
+              <Checkbox
+                checked={selectedStatuses.includes(status)}
+                onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+              />
+              {STATUS_INFO[status].text}
+            </label>
+          ))}
+        </PopoverContent>
+      </Popover>
+
+      {/* 생성일 범위 */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant={dateRange ? 'default' : 'outline'} size="sm">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {dateLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={dateRange}
+            onSelect={handleDateRangeChange}
+            numberOfMonths={2}
+            disabled={{ after: new Date() }}
+          />
+        </PopoverContent>
+      </Popover>
+
+      {/* 모델 */}
+      <Select value={values.model || ALL_VALUE} onValueChange={handleSelectChange('model')}>
+        <SelectTrigger className="w-[170px] h-8">
+          <SelectValue placeholder="모델" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_VALUE}>모든 모델</SelectItem>
+          {DEFAULT_VIDEO_GENERATION_MODELS.map((model) => (
+            <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* 해상도 */}
+      <Select value={values.resolution || ALL_VALUE} onValueChange={handleSelectChange('resolution')}>
+        <SelectTrigger className="w-[140px] h-8">
+          <SelectValue placeholder="해상도" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_VALUE}>모든 해상도</SelectItem>
+          {RESOLUTION_OPTIONS.map((resolution) => (
+            <SelectItem key={resolution} value={resolution}>{resolution}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* 길이 */}
+      <Select value={values.duration || ALL_VALUE} onValueChange={handleSelectChange('duration')}>
+        <SelectTrigger className="w-[120px] h-8">
+          <SelectValue placeholder="길이" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_VALUE}>모든 길이</SelectItem>
+          {DURATION_OPTIONS.map((seconds) => (
+            <SelectItem key={seconds} value={String(seconds)}>{seconds}초</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* 오디오 */}
+      <Select value={values.hasAudio || ALL_VALUE} onValueChange={handleSelectChange('hasAudio')}>
+        <SelectTrigger className="w-[130px] h-8">
+          <SelectValue placeholder="오디오" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_VALUE}>오디오 전체</SelectItem>
+          <SelectItem value="true">오디오 있음</SelectItem>
+          <SelectItem value="false">오디오 없음</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {hasActiveFilters && (
+        <Button variant="ghost" size="sm" onClick={resetFilters}>
+          <RotateCcw className="mr-2 h-4 w-4" />
+          필터 초기화
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -3,16 +3,20 @@
 import { useState, useRef, useEffect } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, Volume2, VolumeX, Maximize, Download, X } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Play, Pause, Volume2, VolumeX, Maximize, Download, X, FastForward, Loader2 } from 'lucide-react';
 import { VideoGenerationResult } from '@/types';
+import { GenerationConfigDetails } from '@/components/ui/generation-config-details';
+import { isPortraitVideo } from '@/lib/video-utils';
 
 interface VideoPlayerModalProps {
   video: VideoGenerationResult;
   isOpen: boolean;
   onClose: () => void;
+  onExtend?: (video: VideoGenerationResult, koreanPrompt: string) => Promise<void>;
 }
 
-export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalProps) {
+export function VideoPlayerModal({ video, isOpen, onClose, onExtend }: VideoPlayerModalProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(true);
@@ -22,6 +26,9 @@ export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalPro
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [playPromise, setPlayPromise] = useState<Promise<void> | null>(null);
+  const [isExtendFormOpen, setIsExtendFormOpen] = useState(false);
+  const [extendPrompt, setExtendPrompt] = useState('');
+  const [isExtending, setIsExtending] = useState(false);
 
   // Reset state when modal opens/closes
   useEffect(() => {
@@ -32,10 +39,12 @@ export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalPro
       setIsLoading(true);
       setHasError(false);
       setPlayPromise(null);
+      setIsExtendFormOpen(false);
+      setExtendPrompt(video.koreanPrompt);
     } else {
       setPlayPromise(null);
     }
-  }, [isOpen]);
+  }, [isOpen, video.koreanPrompt]);
 
   // Set up video event listeners when modal is open and video is available
   useEffect(() => {
@@ -271,6 +280,18 @@ export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalPro
     }
   };
 
+  const handleExtend = async () => {
+    if (!onExtend || !extendPrompt.trim()) return;
+
+    setIsExtending(true);
+    try {
+      await onExtend(video, extendPrompt.trim());
+      onClose();
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
   const formatTime = (time: number) => {
     if (isNaN(time)) return '0:00';
     const minutes = Math.floor(time / 60);
@@ -278,9 +299,11 @@ export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalPro
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const isPortrait = isPortraitVideo(video);
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl w-full p-0 overflow-hidden">
+      <DialogContent className={`${isPortrait ? 'max-w-md' : 'max-w-4xl'} w-full p-0 overflow-hidden`}>
         <div className="relative bg-black">
           {/* Close button */}
           <Button
@@ -295,7 +318,7 @@ export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalPro
           {/* Video element */}
           <video
             ref={videoRef}
-            className="w-full aspect-video"
+            className={isPortrait ? 'w-full aspect-[9/16] max-h-[80vh] mx-auto' : 'w-full aspect-video'}
             poster={video.thumbnailUrl}
             onClick={togglePlay}
             preload="auto"
@@ -497,6 +520,60 @@ export function VideoPlayerModal({ video, isOpen, onClose }: VideoPlayerModalPro
               생성일: {video.createdAt.toLocaleDateString('ko-KR')}
             </span>
           </div>
+
+          {video.generationConfig && (
+            <div className="mt-4 pt-4 border-t">
+              <p className="text-sm font-medium mb-2">생성 설정</p>
+              <GenerationConfigDetails config={video.generationConfig} className="text-muted-foreground" />
+            </div>
+          )}
+
+          {onExtend && video.gcsUri && (
+            <div className="mt-4 pt-4 border-t space-y-3">
+              {isExtendFormOpen ? (
+                <>
+                  <Textarea
+                    value={extendPrompt}
+                    onChange={(e) => setExtendPrompt(e.target.value)}
+                    placeholder="이어질 장면을 한국어로 설명해주세요..."
+                    className="min-h-[80px] resize-none"
+                    disabled={isExtending}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setIsExtendFormOpen(false)}
+                      disabled={isExtending}
+                    >
+                      취소
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleExtend}
+                      disabled={isExtending || !extendPrompt.trim()}
+                    >
+                      {isExtending ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <FastForward className="mr-1.5 h-4 w-4" />
+                      )}
+                      연장 생성
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsExtendFormOpen(true)}
+                >
+                  <FastForward className="mr-1.5 h-4 w-4" />
+                  이어서 생성 (연장)
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
@@ -10,26 +11,43 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Switch } from '@/components/ui/switch';
-import { Send, Loader2, ChevronDown, ChevronRight, Settings, Clock, Lock, Volume2, VolumeX, Sparkles, X, Maximize } from 'lucide-react';
+import { Send, Loader2, ChevronDown, ChevronRight, Settings, Clock, Lock, Volume2, VolumeX, Sparkles, X, Maximize, ImagePlus, Layers, Dices } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
+import { PromptTemplatePicker } from '@/components/prompt-template-picker';
+import { BatchImportDialog } from '@/components/batch-import-dialog';
+import { GenerationQuotaMeter } from '@/components/generation-quota-meter';
+import { useGenerationQuota } from '@/hooks/use-generation-quota';
 import { 
   DEFAULT_TRANSLATION_MODELS, 
   DEFAULT_VIDEO_GENERATION_MODELS, 
   DEFAULT_AI_MODEL_CONFIG,
-  AIModelConfig 
+  AIModelConfig,
+  PromptTemplate
 } from '@/types';
+import { API_CONFIG, UPLOAD_CONFIG } from '@/lib/constants';
+import { composePrompt, extractTemplateVariables, fillTemplate } from '@/lib/prompt-templates';
+import type { BatchPromptRow } from '@/lib/batch-import';
+
+type ImageSlot = 'firstFrameImage' | 'lastFrameImage';
 
 interface VideoPromptFormProps {
-  onSubmit: (prompt: string, config: AIModelConfig, userEmail: string) => void;
+  onSubmit: (prompt: string, config: AIModelConfig) => void | Promise<void>;
+  // 배치 가져오기 (현재 폼 설정을 기본값으로 사용)
+  onBatchSubmit?: (rows: BatchPromptRow[], config: AIModelConfig) => Promise<void>;
   isLoading: boolean;
 }
 
-export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
+export function VideoPromptForm({ onSubmit, onBatchSubmit, isLoading }: VideoPromptFormProps) {
   const [prompt, setPrompt] = useState('');
-  const [userEmail, setUserEmail] = useState('');
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
   const [config, setConfig] = useState<AIModelConfig>(DEFAULT_AI_MODEL_CONFIG);
   const [videoGenerationEnabled, setVideoGenerationEnabled] = useState<boolean | null>(null);
+  const [uploadingImageSlot, setUploadingImageSlot] = useState<ImageSlot | null>(null);
+  const [isInterpolationMode, setIsInterpolationMode] = useState(false);
+  const [imageUploadError, setImageUploadError] = useState<string | null>(null);
+  const [selectedTemplate, setSelectedTemplate] = useState<PromptTemplate | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const { quota, reload: reloadQuota } = useGenerationQuota();
 
   // 컴포넌트 마운트 시 비디오 생성 기능 상태 확인
   useEffect(() => {
@@ -52,12 +70,29 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
     }
   };
 
+  // 보간 모드에서는 첫 프레임과 마지막 프레임 이미지가 모두 필요
+  const isMissingInterpolationFrames = isInterpolationMode && (!config.firstFrameImage || !config.lastFrameImage);
+
+  // 템플릿 변수를 모두 채워야 제출 가능
+  const missingTemplateVariables = selectedTemplate
+    ? extractTemplateVariables(selectedTemplate.content).filter(name => !templateValues[name]?.trim())
+    : [];
+
+  // 번역 전에 직접 입력한 프롬프트와 변수가 채워진 템플릿을 합쳐 최종 한국어 프롬프트 구성
+  const composedPrompt = composePrompt(
+    prompt,
+    selectedTemplate ? fillTemplate(selectedTemplate.content, templateValues) : ''
+  );
+
+  // 남은 생성 횟수가 요청 개수보다 적으면 제출 불가 (서버에서도 429로 거부)
+  const isQuotaExceeded = quota?.remaining != null && quota.remaining < (config.numberOfVideos || 1);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim() && userEmail.trim() && !isLoading) {
-      onSubmit(prompt.trim(), config, userEmail.trim());
+    if (composedPrompt && missingTemplateVariables.length === 0 && !isLoading && !uploadingImageSlot && !isMissingInterpolationFrames && !isQuotaExceeded) {
+      Promise.resolve(onSubmit(composedPrompt, config)).finally(reloadQuota);
       setPrompt('');
-      setUserEmail('');
+      setConfig(prev => ({ ...prev, firstFrameImage: undefined, lastFrameImage: undefined }));
     }
   };
 
@@ -69,6 +104,11 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
     // 선택된 모델의 capabilities 찾기
     const selectedModel = DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === model);
     const capabilities = selectedModel?.capabilities;
+
+    // 마지막 프레임을 지원하지 않는 모델의 경우 보간 모드 해제
+    if (!capabilities?.supportsLastFrame) {
+      setIsInterpolationMode(false);
+    }
     
     setConfig(prev => {
       let newConfig = {
@@ -93,6 +133,24 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
         newConfig.generateAudio = false;
       }
 
+      // 이미지 입력을 지원하지 않는 모델의 경우 업로드한 이미지 제거
+      if (!capabilities?.supportsImageToVideo && prev.firstFrameImage) {
+        newConfig.firstFrameImage = undefined;
+      }
+      if (!capabilities?.supportsLastFrame && prev.lastFrameImage) {
+        newConfig.lastFrameImage = undefined;
+      }
+
+      // 지원하지 않는 화면비인 경우 모델의 기본 화면비로 변경
+      if (capabilities && !capabilities.aspectRatios.includes(prev.aspectRatio)) {
+        newConfig.aspectRatio = capabilities.aspectRatios[0];
+      }
+
+      // 생성 개수가 모델의 최대값을 넘는 경우 조정
+      if (capabilities && prev.numberOfVideos > capabilities.maxNumberOfVideos) {
+        newConfig.numberOfVideos = capabilities.maxNumberOfVideos;
+      }
+
       return newConfig;
     });
   };
@@ -137,6 +195,114 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
     setConfig(prev => ({ ...prev, aspectRatio: ratio }));
   };
 
+  const updateSeed = (value: string) => {
+    const seed = parseInt(value);
+    setConfig(prev => ({ ...prev, seed: isNaN(seed) ? undefined : seed }));
+  };
+
+  const randomizeSeed = () => {
+    setConfig(prev => ({ ...prev, seed: Math.floor(Math.random() * (API_CONFIG.VIDEO_GENERATION.MAX_SEED + 1)) }));
+  };
+
+  const updateNumberOfVideos = (count: string) => {
+    setConfig(prev => ({ ...prev, numberOfVideos: parseInt(count) }));
+  };
+
+  const handleImageChange = (slot: ImageSlot) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImageUploadError(null);
+
+    if (!UPLOAD_CONFIG.ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      setImageUploadError('PNG 또는 JPEG 이미지만 업로드할 수 있습니다.');
+      return;
+    }
+    if (file.size > UPLOAD_CONFIG.MAX_IMAGE_SIZE) {
+      setImageUploadError(`이미지는 ${UPLOAD_CONFIG.MAX_IMAGE_SIZE / (1024 * 1024)}MB 이하여야 합니다.`);
+      return;
+    }
+
+    setUploadingImageSlot(slot);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/upload-image', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: '알 수 없는 오류' }));
+        throw new Error(errorData.error || `Upload failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      setConfig(prev => ({ ...prev, [slot]: { url: data.url, mimeType: data.mimeType } }));
+    } catch (error) {
+      console.error('Failed to upload image:', error);
+      setImageUploadError('이미지 업로드에 실패했습니다.');
+    } finally {
+      setUploadingImageSlot(null);
+    }
+  };
+
+  const removeImage = (slot: ImageSlot) => {
+    setConfig(prev => ({ ...prev, [slot]: undefined }));
+  };
+
+  const updateInterpolationMode = (enabled: boolean) => {
+    setIsInterpolationMode(enabled);
+    if (!enabled) {
+      removeImage('lastFrameImage');
+    }
+  };
+
+  const renderImageInput = (slot: ImageSlot, label: string, disabled: boolean) => {
+    const image = config[slot];
+
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`${slot}-input`} className="text-xs text-muted-foreground">{label}</Label>
+        {image ? (
+          <div className="flex items-center gap-3">
+            <Image
+              src={image.url}
+              alt={label}
+              width={128}
+              height={80}
+              unoptimized
+              className="h-20 w-32 object-cover rounded-md border"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeImage(slot)}
+              disabled={isLoading}
+              className="h-6 px-2 text-xs"
+            >
+              지우기
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              id={`${slot}-input`}
+              type="file"
+              accept={UPLOAD_CONFIG.ALLOWED_IMAGE_TYPES.join(',')}
+              onChange={handleImageChange(slot)}
+              disabled={isLoading || !!uploadingImageSlot || disabled}
+            />
+            {uploadingImageSlot === slot && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card className="w-full max-w-4xl transition-all duration-200 hover:shadow-lg hover:border-blue-500 hover:-translate-y-1">
       <CardHeader>
@@ -161,20 +327,6 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
         )}
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          {/* User Email Input */}
-          <div className="space-y-2">
-            <Label htmlFor="user-email">사용자 이메일</Label>
-            <Input
-              id="user-email"
-              type="email"
-              value={userEmail}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUserEmail(e.target.value)}
-              placeholder="example@email.com"
-              required
-              disabled={isLoading}
-            />
-          </div>
-
           {/* Main Prompt Input */}
           <div className="space-y-2">
             <Label htmlFor="prompt">프롬프트 (한국어)</Label>
@@ -205,6 +357,73 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
             })()}
           </div>
 
+          {/* Prompt Template */}
+          <PromptTemplatePicker
+            selectedTemplate={selectedTemplate}
+            onSelectTemplate={setSelectedTemplate}
+            values={templateValues}
+            onValuesChange={setTemplateValues}
+            currentPrompt={prompt}
+            disabled={isLoading}
+          />
+          {selectedTemplate && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              {missingTemplateVariables.length > 0 ? (
+                <p className="text-amber-600">• 템플릿 변수를 입력해주세요: {missingTemplateVariables.join(', ')}</p>
+              ) : (
+                <p>• 번역될 프롬프트: {composedPrompt}</p>
+              )}
+            </div>
+          )}
+
+          {/* Input Image Upload */}
+          {(() => {
+            const selectedModel = DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === config.videoGenerationModel);
+            const supportsImage = selectedModel?.capabilities.supportsImageToVideo || false;
+            const supportsLastFrame = selectedModel?.capabilities.supportsLastFrame || false;
+
+            return (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-2">
+                    <ImagePlus className="h-4 w-4" />
+                    입력 이미지 (선택)
+                    {!supportsImage && (
+                      <span className="text-xs text-muted-foreground">
+                        ({selectedModel?.name} 미지원)
+                      </span>
+                    )}
+                  </Label>
+                  {supportsLastFrame && (
+                    <div className="flex items-center space-x-2">
+                      <Label htmlFor="interpolation-mode" className="text-xs font-medium">
+                        첫/마지막 프레임 보간
+                      </Label>
+                      <Switch
+                        id="interpolation-mode"
+                        checked={isInterpolationMode}
+                        onCheckedChange={updateInterpolationMode}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className={isInterpolationMode ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+                  {renderImageInput('firstFrameImage', '첫 프레임 이미지', !supportsImage)}
+                  {isInterpolationMode && renderImageInput('lastFrameImage', '마지막 프레임 이미지', !supportsLastFrame)}
+                </div>
+                {imageUploadError && (
+                  <p className="text-xs text-red-600">{imageUploadError}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {isInterpolationMode
+                    ? '시작 이미지와 끝 이미지를 모두 업로드하면 두 장면을 자연스럽게 잇는 비디오를 생성합니다.'
+                    : '스토리보드 프레임 등 이미지를 업로드하면 해당 이미지에서 시작하는 비디오를 생성합니다.'}
+                </p>
+              </div>
+            );
+          })()}
+
           {/* Model Selection */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -385,6 +604,42 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
                 );
               })()}
 
+              {/* Number of Videos Selector */}
+              {(() => {
+                const selectedModel = DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === config.videoGenerationModel);
+                const maxNumberOfVideos = selectedModel?.capabilities.maxNumberOfVideos || 1;
+
+                return (
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Layers className="h-4 w-4" />
+                      생성 개수
+                    </Label>
+                    <Select
+                      value={String(config.numberOfVideos)}
+                      onValueChange={updateNumberOfVideos}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: maxNumberOfVideos }, (_, i) => i + 1).map((count) => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count === 1 ? '1개' : `${count}개 (변형 비교)`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {config.numberOfVideos > 1 && (
+                      <p className="text-xs text-muted-foreground">
+                        같은 프롬프트로 {config.numberOfVideos}개의 변형을 생성해 나란히 비교할 수 있습니다
+                      </p>
+                    )}
+                  </div>
+                );
+              })()}
+
               {/* Generate Audio Toggle */}
               {(() => {
                 const selectedModel = DEFAULT_VIDEO_GENERATION_MODELS.find(m => m.id === config.videoGenerationModel);
@@ -464,7 +719,7 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
               >
                 <span className="flex items-center gap-2">
                   <Settings className="h-4 w-4" />
-                  고급 번역 설정
+                  고급 설정
                 </span>
                 {isAdvancedOpen ? (
                   <ChevronDown className="h-4 w-4" />
@@ -474,6 +729,50 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
               </Button>
             </CollapsibleTrigger>
             <CollapsibleContent className="space-y-4 pt-4">
+              <div className="space-y-2 p-4 border rounded-lg bg-muted/50">
+                <Label htmlFor="seed" className="flex items-center gap-2">
+                  <Dices className="h-4 w-4" />
+                  시드
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="seed"
+                    type="number"
+                    min={0}
+                    max={API_CONFIG.VIDEO_GENERATION.MAX_SEED}
+                    step={1}
+                    value={config.seed ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSeed(e.target.value)}
+                    placeholder="비워두면 무작위 시드가 지정됩니다"
+                    disabled={isLoading}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={randomizeSeed}
+                    disabled={isLoading}
+                  >
+                    무작위
+                  </Button>
+                  {config.seed !== undefined && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateSeed('')}
+                      disabled={isLoading}
+                      className="h-6 px-2 text-xs"
+                    >
+                      지우기
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  같은 시드와 설정을 사용하면 비슷한 결과를 다시 얻을 수 있습니다. 사용된 시드는 비디오와 함께 저장됩니다.
+                </p>
+              </div>
+
               <div className="space-y-4 p-4 border rounded-lg bg-muted/50">
                 <div className="space-y-2">
                   <Label htmlFor="system-instruction">시스템 지시사항</Label>
@@ -518,10 +817,18 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
             </CollapsibleContent>
           </Collapsible>
 
+          {/* Generation Quota */}
+          <GenerationQuotaMeter quota={quota} />
+          {isQuotaExceeded && (
+            <p className="text-sm text-amber-600">
+              생성 한도가 부족합니다. 남은 생성 횟수({quota?.remaining}회)보다 많은 {config.numberOfVideos || 1}개를 요청했습니다.
+            </p>
+          )}
+
           {/* Submit Button */}
           <Button
             type="submit"
-            disabled={!prompt.trim() || !userEmail.trim() || isLoading || videoGenerationEnabled === false}
+            disabled={!composedPrompt || missingTemplateVariables.length > 0 || isLoading || !!uploadingImageSlot || isMissingInterpolationFrames || isQuotaExceeded || videoGenerationEnabled === false}
             className="w-full"
             size="lg"
           >
@@ -542,6 +849,13 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
               </>
             )}
           </Button>
+          {onBatchSubmit && (
+            <BatchImportDialog
+              config={config}
+              onSubmit={(rows, batchConfig) => onBatchSubmit(rows, batchConfig).finally(reloadQuota)}
+              disabled={isLoading || videoGenerationEnabled === false}
+            />
+          )}
         </form>
 
         {/* Current Configuration Display */}
@@ -590,7 +904,13 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
                     )}
                   </p>
                   <p><strong>화면비:</strong> {config.aspectRatio}</p>
+                  <p><strong>생성 개수:</strong> {config.numberOfVideos}개</p>
+                  <p><strong>시드:</strong> {config.seed ?? '무작위'}</p>
                   <p><strong>네거티브 프롬프트:</strong> {config.negativePrompt ? '설정됨' : '없음'}</p>
+                  <p><strong>첫 프레임 이미지:</strong> {config.firstFrameImage ? '설정됨' : '없음'}</p>
+                  {isInterpolationMode && (
+                    <p><strong>마지막 프레임 이미지:</strong> {config.lastFrameImage ? '설정됨' : '없음'}</p>
+                  )}
                 </>
               );
             })()}
@@ -610,6 +930,9 @@ export function VideoPromptForm({ onSubmit, isLoading }: VideoPromptFormProps) {
                     `${selectedModel.capabilities.durationRange.min}-${selectedModel.capabilities.durationRange.max}초`}</p>
                   <p>• 오디오 생성: {selectedModel.capabilities.supportsAudioGeneration ? '지원' : '미지원'}</p>
                   <p>• 비디오 확장: {selectedModel.capabilities.supportsVideoExtension ? '지원' : '미지원'}</p>
+                  <p>• 이미지 입력: {selectedModel.capabilities.supportsImageToVideo ? '지원' : '미지원'}</p>
+                  <p>• 마지막 프레임: {selectedModel.capabilities.supportsLastFrame ? '지원' : '미지원'}</p>
+                  <p>• 최대 생성 개수: {selectedModel.capabilities.maxNumberOfVideos}개</p>
                   <p>• 화면비: {selectedModel.capabilities.aspectRatios.join(', ')}</p>
                   <p>• 프롬프트 재작성기: {selectedModel.capabilities.promptRewriter.canDisable ? '선택적' : '필수'}</p>
                   {selectedModel.capabilities.promptRewriter.enhancesPromptsUnder30Words && (
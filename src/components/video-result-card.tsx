@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Image from 'next/image';
 import { VideoGenerationResult } from '@/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,25 +9,40 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { StatusBadge } from '@/components/ui/status-badge';
 import { VideoMetadata } from '@/components/ui/video-metadata';
 import { TruncatedText } from '@/components/ui/truncated-text';
+import { HighlightedText } from '@/components/ui/highlighted-text';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { Download, Play, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { Download, Play, Image as ImageIcon, Loader2, X, FastForward, RotateCcw, Zap } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { ko } from 'date-fns/locale';
 import { VideoPlayerModal } from './video-player-modal';
 import { Progress } from "@/components/ui/progress";
-import { downloadVideo, generateVideoFilename } from '@/lib/video-utils';
-import { getStatusInfo, isCompletedStatus, isErrorStatus, isProgressingStatus } from '@/lib/constants';
+import { downloadVideo, formatElapsedTime, generateVideoFilename, isPortraitVideo } from '@/lib/video-utils';
+import { useGenerationProgress } from '@/hooks/use-generation-progress';
+import { getStatusInfo, isCancelledStatus, isCompletedStatus, isErrorStatus, isProgressingStatus } from '@/lib/constants';
 import { UI_CONFIG } from '@/lib/constants';
 
 interface VideoResultCardProps {
   result: VideoGenerationResult;
   isSelected?: boolean;
   onToggleSelection?: (videoId: string) => void;
+  onCancel?: (videoId: string) => Promise<void>;
+  onExtend?: (video: VideoGenerationResult, koreanPrompt: string) => Promise<void>;
+  onRegenerate?: (video: VideoGenerationResult) => Promise<void>;
+  parentResult?: VideoGenerationResult;
+  highlightQuery?: string;
+  // 대기열 순번 (1부터, 대기 중인 비디오만)
+  queuePosition?: number;
+  isExpedited?: boolean;
+  onExpedite?: (videoId: string) => Promise<void>;
 }
 
-export function VideoResultCard({ result, isSelected = false, onToggleSelection }: VideoResultCardProps) {
+export function VideoResultCard({ result, isSelected = false, onToggleSelection, onCancel, onExtend, onRegenerate, parentResult, highlightQuery, queuePosition, isExpedited = false, onExpedite }: VideoResultCardProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isExpediting, setIsExpediting] = useState(false);
   const statusInfo = getStatusInfo(result.status);
+  const generationProgress = useGenerationProgress(result);
 
   const handleDownload = () => {
     if (result.videoUrl) {
@@ -41,6 +57,38 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
     }
   };
 
+  const handleCancel = async () => {
+    if (!onCancel) return;
+    setIsCancelling(true);
+    try {
+      await onCancel(result.id);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleExpedite = async () => {
+    if (!onExpedite) return;
+    setIsExpediting(true);
+    try {
+      await onExpedite(result.id);
+    } finally {
+      setIsExpediting(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!onRegenerate) return;
+    setIsRegenerating(true);
+    try {
+      await onRegenerate(result);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const canRegenerate = !!onRegenerate && !!result.generationConfig && !isProgressingStatus(result.status);
+
   const formatTimestamp = (date: Date, label?: string) => {
     const formatted = formatDistanceToNow(date, { 
       addSuffix: true, 
@@ -72,7 +120,7 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
                   <TooltipTrigger asChild>
                     <div className="h-[44px] flex items-start">
                       <CardTitle className="text-base font-semibold leading-snug cursor-pointer line-clamp-2 overflow-hidden">
-                        {result.koreanPrompt}
+                        <HighlightedText text={result.koreanPrompt} query={highlightQuery} />
                       </CardTitle>
                     </div>
                   </TooltipTrigger>
@@ -86,7 +134,7 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
                     <TooltipTrigger asChild>
                       <div className="h-[32px] flex items-start">
                         <CardDescription className="text-xs text-gray-500 cursor-pointer line-clamp-2 overflow-hidden">
-                          번역: {result.englishPrompt}
+                          번역: <HighlightedText text={result.englishPrompt} query={highlightQuery} />
                         </CardDescription>
                       </div>
                     </TooltipTrigger>
@@ -98,7 +146,13 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
               </div>
             </div>
             <div className="space-y-1 text-right flex-shrink-0 ml-4">
-              <StatusBadge status={result.status} />
+              <StatusBadge status={result.status} progress={generationProgress} />
+              {result.status === 'queued' && queuePosition !== undefined && (
+                <span className="text-xs font-medium text-slate-600 block w-[110px]">
+                  {isExpedited && <Zap className="inline h-3 w-3 mr-0.5 text-amber-500" />}
+                  대기열 {queuePosition}번째
+                </span>
+              )}
               {isProgressingStatus(result.status) && (
                 <span className="text-xs text-gray-400 block w-[110px]">
                   새로고침해도 유지됩니다
@@ -123,6 +177,58 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
               </div>
             </div>
 
+            {result.parentVideoId && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-shrink-0 cursor-pointer min-w-0">
+                    <FastForward className="h-3.5 w-3.5 flex-shrink-0" />
+                    <span className="truncate">
+                      원본 {parentResult ? `"${parentResult.koreanPrompt}"` : `#${result.parentVideoId.substring(0, 8)}`} → 연장
+                    </span>
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent side="bottom" className="max-w-md">
+                  <p>{parentResult ? parentResult.koreanPrompt : `원본 비디오 ID: ${result.parentVideoId}`}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
+            {result.sourceImageUrl && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0">
+                {[
+                  { url: result.sourceImageUrl, label: '첫 프레임 이미지' },
+                  ...(result.lastFrameImageUrl ? [{ url: result.lastFrameImageUrl, label: '마지막 프레임 이미지' }] : [])
+                ].map((image, index) => (
+                  <Tooltip key={image.url}>
+                    <TooltipTrigger asChild>
+                      <div className="flex items-center gap-2 cursor-pointer">
+                        {index > 0 && <span>→</span>}
+                        <Image
+                          src={image.url}
+                          alt={image.label}
+                          width={64}
+                          height={40}
+                          unoptimized
+                          className="h-10 w-16 object-cover rounded border"
+                        />
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom" className="max-w-md">
+                      <Image
+                        src={image.url}
+                        alt={image.label}
+                        width={384}
+                        height={256}
+                        unoptimized
+                        className="max-h-64 w-auto rounded"
+                      />
+                    </TooltipContent>
+                  </Tooltip>
+                ))}
+                <span>{result.lastFrameImageUrl ? '첫/마지막 프레임 보간' : '첫 프레임 이미지'}</span>
+              </div>
+            )}
+
             {isErrorStatus(result.status) && result.error && (
               <div className="flex-1 flex flex-col min-h-0">
                 <TruncatedText
@@ -146,7 +252,7 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
                     <img
                       src={result.thumbnailUrl}
                       alt="Video thumbnail"
-                      className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                      className={`w-full h-full ${isPortraitVideo(result) ? 'object-contain' : 'object-cover'} transition-transform group-hover:scale-105`}
                       onClick={() => setIsModalOpen(true)}
                     />
                   ) : (
@@ -175,31 +281,107 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
                   <Loader2 className="h-4 w-4 animate-spin" />
                   <p className="text-sm font-medium">{statusInfo.text}...</p>
                 </div>
-                <Progress value={statusInfo.progress} className="w-3/4" />
+                <Progress value={generationProgress?.progress ?? statusInfo.progress} className="w-3/4" />
+                {generationProgress && (
+                  <p className="text-xs text-muted-foreground tabular-nums">
+                    경과 {formatElapsedTime(generationProgress.elapsedMs)}
+                    {' · '}
+                    {generationProgress.remainingMs > 0
+                      ? `약 ${formatElapsedTime(generationProgress.remainingMs)} 남음`
+                      : '예상보다 오래 걸리고 있습니다'}
+                  </p>
+                )}
+                <div className="flex items-center gap-1">
+                  {onExpedite && result.status === 'queued' && !isExpedited && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleExpedite}
+                      disabled={isExpediting}
+                      className="text-amber-600"
+                    >
+                      {isExpediting ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Zap className="mr-1.5 h-4 w-4" />
+                      )}
+                      우선 처리
+                    </Button>
+                  )}
+                  {onCancel && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleCancel}
+                      disabled={isCancelling}
+                      className="text-muted-foreground"
+                    >
+                      {isCancelling ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <X className="mr-1.5 h-4 w-4" />
+                      )}
+                      생성 취소
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {isCancelledStatus(result.status) && (
+              <div className="flex flex-col items-center justify-center text-center h-full py-8">
+                <p className="text-sm text-muted-foreground">생성이 취소되었습니다</p>
               </div>
             )}
           </div>
 
-          {isCompletedStatus(result.status) && result.videoUrl && (
+          {((isCompletedStatus(result.status) && result.videoUrl) || canRegenerate) && (
             <div className="flex gap-2 mt-3 pt-3 border-t">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setIsModalOpen(true)}
-                className="flex-1 py-1 h-auto"
-              >
-                <Play className="mr-1.5 h-4 w-4" />
-                재생
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleDownload}
-                className="flex-1 py-1 h-auto"
-              >
-                <Download className="mr-1.5 h-4 w-4" />
-                다운로드
-              </Button>
+              {isCompletedStatus(result.status) && result.videoUrl && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsModalOpen(true)}
+                    className="flex-1 py-1 h-auto"
+                  >
+                    <Play className="mr-1.5 h-4 w-4" />
+                    재생
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleDownload}
+                    className="flex-1 py-1 h-auto"
+                  >
+                    <Download className="mr-1.5 h-4 w-4" />
+                    다운로드
+                  </Button>
+                </>
+              )}
+              {canRegenerate && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRegenerate}
+                      disabled={isRegenerating}
+                      className="flex-1 py-1 h-auto"
+                    >
+                      {isRegenerating ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-1.5 h-4 w-4" />
+                      )}
+                      다시 생성
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent side="top">
+                    <p>같은 설정으로 다시 생성 (시드 {result.generationConfig?.seed ?? '없음'})</p>
+                  </TooltipContent>
+                </Tooltip>
+              )}
             </div>
           )}
         </CardContent>
@@ -209,6 +391,7 @@ export function VideoResultCard({ result, isSelected = false, onToggleSelection
             video={result}
             isOpen={isModalOpen}
             onClose={() => setIsModalOpen(false)}
+            onExtend={onExtend}
           />
         )}
       </Card>
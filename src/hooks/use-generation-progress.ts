@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { GenerationStageEstimate, VideoGenerationResult } from '@/types';
+import { Logger } from '@/lib/logger';
+import { UI_CONFIG, isProgressingStatus } from '@/lib/constants';
+import { GenerationProgress, getGenerationProgress } from '@/lib/video-utils';
+
+// 모델별 단계 소요 시간은 페이지당 한 번만 불러와 모든 카드가 공유
+let stageEstimatesPromise: Promise<GenerationStageEstimate[]> | null = null;
+
+const loadStageEstimates = (): Promise<GenerationStageEstimate[]> => {
+  if (!stageEstimatesPromise) {
+    stageEstimatesPromise = fetch('/api/videos/stage-estimates')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`Failed to fetch stage estimates: ${response.status}`)))
+      .then(data => (data.estimates || []) as GenerationStageEstimate[])
+      .catch(error => {
+        Logger.warn('Client - Failed to load stage estimates, using defaults', { error: error instanceof Error ? error.message : error });
+        // 다음 번에 다시 시도
+        stageEstimatesPromise = null;
+        return [];
+      });
+  }
+  return stageEstimatesPromise;
+};
+
+// 진행 중인 비디오의 경과 시간과 예상 남은 시간 (1초마다 갱신, 진행 중이 아니면 null)
+export function useGenerationProgress(result: VideoGenerationResult): GenerationProgress | null {
+  const isProgressing = isProgressingStatus(result.status);
+  const [estimates, setEstimates] = useState<GenerationStageEstimate[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isProgressing) return;
+    let cancelled = false;
+    loadStageEstimates().then(loaded => {
+      if (!cancelled) setEstimates(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isProgressing]);
+
+  useEffect(() => {
+    if (!isProgressing) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), UI_CONFIG.PROGRESS_TICK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isProgressing]);
+
+  if (!isProgressing) return null;
+
+  const estimate = estimates.find(e => e.model === result.generationConfig?.videoGenerationModel);
+  return getGenerationProgress(result, estimate, now);
+}
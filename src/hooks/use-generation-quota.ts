@@ -0,0 +1,26 @@
+import { useState, useCallback, useEffect } from 'react';
+import { GenerationQuota } from '@/types';
+import { Logger } from '@/lib/logger';
+
+// 현재 사용자의 남은 생성 횟수 (제출 후 reload로 갱신)
+export const useGenerationQuota = () => {
+  const [quota, setQuota] = useState<GenerationQuota | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch('/api/quota');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch generation quota: ${response.status}`);
+      }
+      setQuota(await response.json());
+    } catch (error) {
+      Logger.warn('Client - Failed to load generation quota', { error: error instanceof Error ? error.message : error });
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { quota, reload };
+};
@@ -0,0 +1,67 @@
+import { useState, useCallback, useEffect } from 'react';
+import { PromptTemplate } from '@/types';
+import { Logger } from '@/lib/logger';
+
+export interface PromptTemplateInput {
+  name: string;
+  content: string;
+  description?: string;
+  isShared: boolean;
+}
+
+const requestTemplate = async (url: string, method: string, body?: unknown): Promise<PromptTemplate | null> => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Prompt template request failed: ${response.status}`);
+  }
+  return method === 'DELETE' ? null : data as PromptTemplate;
+};
+
+// 내 템플릿과 다른 사용자가 공유한 템플릿 목록 및 관리
+export const usePromptTemplates = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch('/api/prompt-templates');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch prompt templates: ${response.status}`);
+      }
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (error) {
+      Logger.warn('Client - Failed to load prompt templates', { error: error instanceof Error ? error.message : error });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createTemplate = useCallback(async (input: PromptTemplateInput) => {
+    const created = await requestTemplate('/api/prompt-templates', 'POST', input);
+    await reload();
+    return created as PromptTemplate;
+  }, [reload]);
+
+  const updateTemplate = useCallback(async (id: number, updates: Partial<PromptTemplateInput>) => {
+    const updated = await requestTemplate(`/api/prompt-templates/${id}`, 'PATCH', updates);
+    await reload();
+    return updated as PromptTemplate;
+  }, [reload]);
+
+  const deleteTemplate = useCallback(async (id: number) => {
+    await requestTemplate(`/api/prompt-templates/${id}`, 'DELETE');
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { templates, isLoading, reload, createTemplate, updateTemplate, deleteTemplate };
+};
@@ -0,0 +1,40 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AuthUser } from '@/types';
+import { Logger } from '@/lib/logger';
+import { AUTH_CONFIG } from '@/lib/constants';
+
+// Signed-in user for the current browser session
+export const useSession = () => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/session');
+      if (!response.ok) {
+        throw new Error(`Failed to load session: ${response.status}`);
+      }
+      const data = await response.json();
+      setUser(data.user || null);
+    } catch (error) {
+      Logger.warn('Client - Failed to load session', { error });
+      setUser(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      window.location.href = AUTH_CONFIG.LOGIN_PATH;
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  return { user, isLoading, logout };
+};
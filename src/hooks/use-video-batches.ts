@@ -0,0 +1,87 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AIModelConfig, VideoBatch } from '@/types';
+import { Logger } from '@/lib/logger';
+import { API_CONFIG } from '@/lib/constants';
+import type { VideoRecord } from '@/lib/database';
+import type { BatchPromptRow } from '@/lib/batch-import';
+import { useVideoEvents } from '@/hooks/use-video-events';
+
+export const isBatchInProgress = (batch: VideoBatch) => batch.pending + batch.inProgress > 0;
+
+// 내 배치 가져오기 목록과 진행 상황 (진행 중인 배치가 있는 동안 상태 변경을 구독)
+export const useVideoBatches = () => {
+  const [batches, setBatches] = useState<VideoBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const batchIdsRef = useRef<Set<string>>(new Set());
+  const reloadTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch('/api/videos/batches');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch video batches: ${response.status}`);
+      }
+      const data = await response.json();
+      const loaded: VideoBatch[] = data.batches || [];
+      batchIdsRef.current = new Set(loaded.map(batch => batch.batchId));
+      setBatches(loaded);
+    } catch (error) {
+      Logger.warn('Client - Failed to load video batches', { error: error instanceof Error ? error.message : error });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const submitBatch = useCallback(async (rows: BatchPromptRow[], config: AIModelConfig) => {
+    const response = await fetch('/api/videos/batches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompts: rows, config }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to submit batch: ${response.status}`);
+    }
+    Logger.info('Client - Batch submitted', { batchId: data.batchId, count: data.count });
+    await reload();
+    return data as { batchId: string; videoIds: string[]; count: number };
+  }, [reload]);
+
+  const hasActiveBatches = batches.some(isBatchInProgress);
+
+  // 배치에 속한 비디오가 바뀌면 목록을 다시 집계 (여러 알림이 몰려도 한 번만 조회)
+  const handleVideoEvent = useCallback((video: VideoRecord) => {
+    if (!video.batch_id || !batchIdsRef.current.has(video.batch_id) || reloadTimerRef.current) return;
+    reloadTimerRef.current = setTimeout(() => {
+      reloadTimerRef.current = null;
+      reload();
+    }, API_CONFIG.POLLING_INTERVAL);
+  }, [reload]);
+  const { isConnected } = useVideoEvents({ enabled: hasActiveBatches, onVideo: handleVideoEvent });
+
+  // 스트림이 (재)연결되면 끊긴 사이의 변경을 한 번 반영
+  useEffect(() => {
+    if (isConnected) {
+      reload();
+    }
+  }, [isConnected, reload]);
+
+  // 스트림이 연결되지 않은 동안에만 폴링
+  useEffect(() => {
+    if (!hasActiveBatches || isConnected) return;
+    const timer = setInterval(reload, API_CONFIG.POLLING_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasActiveBatches, isConnected, reload]);
+
+  useEffect(() => {
+    reload();
+    return () => {
+      if (reloadTimerRef.current) {
+        clearTimeout(reloadTimerRef.current);
+        reloadTimerRef.current = null;
+      }
+    };
+  }, [reload]);
+
+  return { batches, isLoading, reload, submitBatch };
+};
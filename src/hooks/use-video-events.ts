@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef } from 'react';
+import { Logger } from '@/lib/logger';
+import type { VideoRecord } from '@/lib/database';
+import type { VideoSyncStatus } from '@/hooks/use-video-sync';
+
+interface UseVideoEventsOptions {
+  // 구독할 대상이 있을 때만 스트림을 연결
+  enabled: boolean;
+  onVideo?: (video: VideoRecord) => void;
+  onSync?: (syncStatus: VideoSyncStatus) => void;
+}
+
+// /api/videos/events SSE 스트림 구독
+// isConnected가 false인 동안(연결 전, 끊김, 재연결 중)에는 호출하는 쪽에서 폴링으로 대체
+export function useVideoEvents({ enabled, onVideo, onSync }: UseVideoEventsOptions) {
+  const [isConnected, setIsConnected] = useState(false);
+  const onVideoRef = useRef(onVideo);
+  const onSyncRef = useRef(onSync);
+
+  useEffect(() => {
+    onVideoRef.current = onVideo;
+    onSyncRef.current = onSync;
+  }, [onVideo, onSync]);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || !('EventSource' in window)) {
+      setIsConnected(false);
+      return;
+    }
+
+    const eventSource = new EventSource('/api/videos/events');
+
+    eventSource.onopen = () => {
+      Logger.info('Client - Video event stream connected');
+      setIsConnected(true);
+    };
+
+    // 브라우저가 자동으로 재연결하며, 그 동안에는 폴링으로 대체
+    eventSource.onerror = () => {
+      Logger.warn('Client - Video event stream disconnected', {
+        willReconnect: eventSource.readyState === EventSource.CONNECTING
+      });
+      setIsConnected(false);
+    };
+
+    eventSource.addEventListener('video', (event) => {
+      try {
+        onVideoRef.current?.(JSON.parse((event as MessageEvent).data) as VideoRecord);
+      } catch (error) {
+        Logger.warn('Client - Invalid video event', { error: error instanceof Error ? error.message : error });
+      }
+    });
+
+    eventSource.addEventListener('sync', (event) => {
+      try {
+        onSyncRef.current?.(JSON.parse((event as MessageEvent).data) as VideoSyncStatus);
+      } catch (error) {
+        Logger.warn('Client - Invalid sync event', { error: error instanceof Error ? error.message : error });
+      }
+    });
+
+    return () => {
+      eventSource.close();
+      setIsConnected(false);
+    };
+  }, [enabled]);
+
+  return { isConnected };
+}
@@ -3,19 +3,58 @@ import { toast } from 'sonner';
 import { VideoGenerationResult, VideoGenerationState, AIModelConfig } from '@/types';
 import { Logger } from '@/lib/logger';
 import { convertDatabaseRecordToResult } from '@/lib/video-utils';
+import type { VideoRecord } from '@/lib/database';
+import { useVideoEvents } from '@/hooks/use-video-events';
 import { isProgressingStatus } from '@/lib/constants';
 import { API_CONFIG } from '@/lib/constants';
 import { v4 as uuidv4 } from 'uuid';
 
 const VIDEOS_PER_PAGE = 10;
 
+// 목록 필터 (creator: 'me'이면 내 비디오, 이메일이면 해당 사용자의 비디오 / q: 프롬프트 검색어)
+// 나머지 값은 GET /api/videos 쿼리 파라미터 형식 그대로 사용 (status는 쉼표 구분, from/to는 ISO 날짜)
+export interface VideoListQuery {
+  creator?: string;
+  q?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  model?: string;
+  resolution?: string;
+  duration?: string;
+  hasAudio?: string;
+  batch?: string;
+}
+
+export interface VideoFeedOptions {
+  // true면 페이지 번호 대신 커서 기반으로 다음 페이지를 목록 뒤에 이어 붙임
+  infiniteScroll?: boolean;
+}
+
+const VIDEO_LIST_QUERY_KEYS = ['creator', 'q', 'status', 'from', 'to', 'model', 'resolution', 'duration', 'hasAudio', 'batch'] as const;
+
+// 비어 있지 않은 필터만 쿼리 문자열로 직렬화
+const toVideoListQueryString = (filters: VideoListQuery): string => {
+  const params = new URLSearchParams();
+  for (const key of VIDEO_LIST_QUERY_KEYS) {
+    const value = filters[key];
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  return params.toString();
+};
+
 // Custom hook for managing video API requests
 const useVideoApi = () => {
-  const fetchVideos = useCallback(async (page: number = 0): Promise<{ videos: VideoGenerationResult[], hasMore: boolean, totalCount: number }> => {
+  const fetchVideos = useCallback(async (page: number = 0, filterQuery: string = ''): Promise<{ videos: VideoGenerationResult[], hasMore: boolean, totalCount: number }> => {
     const limit = VIDEOS_PER_PAGE;
     const offset = page * limit;
+    const params = new URLSearchParams(filterQuery);
+    params.set('limit', String(limit));
+    params.set('offset', String(offset));
     
-    const response = await fetch(`/api/videos?limit=${limit}&offset=${offset}`);
+    const response = await fetch(`/api/videos?${params.toString()}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch videos: ${response.status}`);
     }
@@ -28,11 +67,32 @@ const useVideoApi = () => {
     return { videos, hasMore, totalCount };
   }, []);
 
+  // 커서 기반 조회 (cursor가 null이면 첫 페이지, totalCount는 첫 페이지에서만 제공)
+  const fetchVideoFeed = useCallback(async (cursor: string | null, filterQuery: string = ''): Promise<{ videos: VideoGenerationResult[], hasMore: boolean, nextCursor: string | null, totalCount?: number }> => {
+    const params = new URLSearchParams(filterQuery);
+    params.set('limit', String(VIDEOS_PER_PAGE));
+    params.set('cursor', cursor || '');
+    
+    const response = await fetch(`/api/videos?${params.toString()}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch videos: ${response.status}`);
+    }
+    
+    const data = await response.json();
+    const videos = ((data.videos || []) as VideoRecord[]).map(convertDatabaseRecordToResult);
+    
+    return {
+      videos,
+      hasMore: data.hasMore || false,
+      nextCursor: data.nextCursor || null,
+      totalCount: data.totalCount
+    };
+  }, []);
+
   const createVideo = useCallback(async (videoData: {
     id: string;
     korean_prompt: string;
     english_prompt: string;
-    user_email: string;
     status: string;
   }) => {
     const response = await fetch('/api/videos', {
@@ -42,20 +102,21 @@ const useVideoApi = () => {
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Database save failed: ${response.status} - ${errorText}`);
+      // 생성 한도 초과(429) 등 서버 메시지를 그대로 표시
+      const errorData = await response.json().catch(() => ({ error: '알 수 없는 오류' }));
+      throw new Error(errorData.error || `Database save failed: ${response.status}`);
     }
 
     return response.json();
   }, []);
 
-  const deleteVideos = useCallback(async (videoIds: string[], deleteKey: string) => {
+  const deleteVideos = useCallback(async (videoIds: string[]) => {
     if (videoIds.length === 0) return;
     
     const response = await fetch('/api/videos', {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ videoIds, deleteKey }),
+      body: JSON.stringify({ videoIds }),
     });
 
     if (!response.ok) {
@@ -64,11 +125,11 @@ const useVideoApi = () => {
     }
   }, []);
 
-  const clearAllVideos = useCallback(async (deleteKey: string) => {
+  const clearAllVideos = useCallback(async () => {
     const response = await fetch('/api/videos', {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ deleteAll: true, deleteKey }),
+      body: JSON.stringify({ deleteAll: true }),
     });
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ error: '알 수 없는 오류' }));
@@ -77,7 +138,18 @@ const useVideoApi = () => {
     return response.json();
   }, []);
 
-  return { fetchVideos, createVideo, deleteVideos, clearAllVideos };
+  const cancelVideo = useCallback(async (videoId: string) => {
+    const response = await fetch(`/api/videos/${videoId}/cancel`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: '알 수 없는 오류' }));
+      throw new Error(errorData.error || `Failed to cancel video: ${response.status}`);
+    }
+    return response.json();
+  }, []);
+
+  return { fetchVideos, fetchVideoFeed, createVideo, deleteVideos, clearAllVideos, cancelVideo };
 };
 
 // Custom hook for video polling
@@ -117,7 +189,8 @@ const useVideoPolling = (
         statuses: progressingVideos.map((v: VideoGenerationResult) => `${v.id}:${v.status}`).join(', ')
       });
       
-      const response = await fetch(`/api/videos?ids=${idsToPoll}`);
+      // 여러 개를 생성한 경우 새로 추가된 샘플 비디오도 함께 받아옴
+      const response = await fetch(`/api/videos?ids=${idsToPoll}&includeGroupMembers=true`);
       
       if (!response.ok) {
         throw new Error(`Polling failed: ${response.status}`);
@@ -175,9 +248,13 @@ const useVideoPolling = (
       }
     };
   }, []);
+
+  return poll;
 };
 
-export function useVideoGeneration() {
+export function useVideoGeneration(filters: VideoListQuery = {}, { infiniteScroll = false }: VideoFeedOptions = {}) {
+  // 필터 객체 대신 직렬화된 문자열을 의존성으로 사용해 값이 바뀔 때만 다시 불러옴
+  const filterQuery = toVideoListQueryString(filters);
   const [state, setState] = useState<VideoGenerationState>({
     results: [],
     isLoading: false,
@@ -190,11 +267,20 @@ export function useVideoGeneration() {
   const [hasMore, setHasMore] = useState(true);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isAppending, setIsAppending] = useState(false);
-  const { fetchVideos, createVideo, deleteVideos, clearAllVideos } = useVideoApi();
+  const { fetchVideos, fetchVideoFeed, createVideo, deleteVideos, clearAllVideos, cancelVideo } = useVideoApi();
+  // 무한 스크롤 모드의 다음 페이지 커서와, 그 커서를 만든 필터 (필터가 바뀌면 이어 붙이지 않음)
+  const nextCursorRef = useRef<string | null>(null);
+  const feedQueryRef = useRef<string | null>(null);
 
-  // Handle video updates from polling
+  // Handle video updates from the event stream or polling
   const handleVideoUpdate = useCallback((updatedVideos: VideoGenerationResult[]) => {
     setState(prev => {
+      // 스트림은 모든 비디오의 변경을 전달하므로 목록에 없는 비디오(또는 그 그룹 샘플)는 무시
+      const isRelevant = updatedVideos.some(v => prev.results.some(r =>
+        r.id === v.id || (v.generationGroupId && (r.id === v.generationGroupId || r.generationGroupId === v.generationGroupId))
+      ));
+      if (!isRelevant) return prev;
+
       const updatedResults = prev.results.map(existingVideo => {
         const updated = updatedVideos.find(v => v.id === existingVideo.id);
         
@@ -214,27 +300,69 @@ export function useVideoGeneration() {
         
         return updated || existingVideo;
       });
+
+      // 같은 생성 그룹의 새 샘플 비디오는 그룹의 마지막 비디오 뒤에 추가
+      const newVideos = updatedVideos.filter(v => v.generationGroupId && !prev.results.some(r => r.id === v.id));
+      for (const newVideo of newVideos) {
+        const lastGroupIndex = updatedResults.reduce(
+          (last, r, index) => (r.id === newVideo.generationGroupId || r.generationGroupId === newVideo.generationGroupId) ? index : last,
+          -1
+        );
+        if (lastGroupIndex >= 0) {
+          updatedResults.splice(lastGroupIndex + 1, 0, newVideo);
+        }
+      }
+
       return { ...prev, results: updatedResults };
     });
   }, []);
 
-  // Determine if polling should be active
-  const shouldPoll = state.results.some(result => isProgressingStatus(result.status));
+  // 진행 중인 비디오가 있는 동안 상태 변경 스트림을 구독
+  const hasProgressingVideos = state.results.some(result => isProgressingStatus(result.status));
+  const handleVideoEvent = useCallback((record: VideoRecord) => {
+    handleVideoUpdate([convertDatabaseRecordToResult(record)]);
+  }, [handleVideoUpdate]);
+  const { isConnected: isStreamConnected } = useVideoEvents({ enabled: hasProgressingVideos, onVideo: handleVideoEvent });
 
-  // Use polling hook
-  useVideoPolling(state.results, handleVideoUpdate, shouldPoll);
+  // 스트림이 연결되지 않은 동안에만 폴링으로 대체
+  const refreshProgressingVideos = useVideoPolling(state.results, handleVideoUpdate, hasProgressingVideos && !isStreamConnected);
+
+  // 스트림이 (재)연결되면 연결 전이나 끊긴 사이의 변경을 한 번 가져옴
+  useEffect(() => {
+    if (isStreamConnected) {
+      refreshProgressingVideos();
+    }
+  }, [isStreamConnected, refreshProgressingVideos]);
 
   const loadVideos = useCallback(async (pageNumber: number) => {
+    let isStale = false;
     try {
       if (pageNumber === 1) {
         setIsInitialLoading(true);
       } else {
         setIsAppending(true);
       }
-      Logger.info('Client - Loading videos from database', { page: pageNumber });
+      Logger.info('Client - Loading videos from database', { page: pageNumber, filterQuery });
       
-      // Convert 1-based page to 0-based for API
-      const { videos, hasMore: newHasMore, totalCount: newTotalCount } = await fetchVideos(pageNumber - 1);
+      let videos: VideoGenerationResult[];
+      let newHasMore: boolean;
+      let newTotalCount: number;
+      if (infiniteScroll) {
+        // 무한 스크롤은 항상 첫 페이지부터 다시 시작
+        feedQueryRef.current = filterQuery;
+        const feed = await fetchVideoFeed(null, filterQuery);
+        // 응답 전에 필터가 바뀌었으면 이전 필터의 결과는 버림
+        if (feedQueryRef.current !== filterQuery) {
+          isStale = true;
+          return;
+        }
+        nextCursorRef.current = feed.nextCursor;
+        ({ videos, hasMore: newHasMore } = feed);
+        newTotalCount = feed.totalCount ?? feed.videos.length;
+      } else {
+        // Convert 1-based page to 0-based for API
+        ({ videos, hasMore: newHasMore, totalCount: newTotalCount } = await fetchVideos(pageNumber - 1, filterQuery));
+      }
       
       setState(prev => ({
         ...prev,
@@ -255,16 +383,21 @@ export function useVideoGeneration() {
       });
       setState(prev => ({ ...prev, error: '비디오 로딩에 실패했습니다.' }));
     } finally {
-      if (pageNumber === 1) {
-        setIsInitialLoading(false);
-      } else {
-        setIsAppending(false);
+      // 버린 응답이면 진행 중인 새 요청의 로딩 상태를 유지
+      if (!isStale) {
+        if (pageNumber === 1) {
+          setIsInitialLoading(false);
+        } else {
+          setIsAppending(false);
+        }
       }
     }
-  }, [fetchVideos]);
+  }, [fetchVideos, fetchVideoFeed, filterQuery, infiniteScroll]);
 
-  // Load initial videos on mount and request notification permission
+  // Load initial videos on mount (and when the list filters change) and request notification permission
   useEffect(() => {
+    setCurrentPage(1);
+    setState(prev => ({ ...prev, selectedIds: [] }));
     loadVideos(1);
     
     // Request notification permission for video completion alerts
@@ -283,16 +416,47 @@ export function useVideoGeneration() {
     loadVideos(newPage);
   }, [state.isLoading, isAppending, loadVideos]);
 
+  // 무한 스크롤: 현재 목록 뒤에 다음 페이지를 이어 붙임
+  const loadMoreVideos = useCallback(async () => {
+    const cursor = nextCursorRef.current;
+    if (!infiniteScroll || !hasMore || !cursor || isInitialLoading || isAppending) return;
+    
+    setIsAppending(true);
+    try {
+      Logger.info('Client - Loading more videos', { filterQuery });
+      const feed = await fetchVideoFeed(cursor, filterQuery);
+      // 응답 전에 필터가 바뀌었으면 이전 필터의 결과는 버림
+      if (feedQueryRef.current !== filterQuery) return;
+      
+      nextCursorRef.current = feed.nextCursor;
+      setState(prev => {
+        const existingIds = new Set(prev.results.map(r => r.id));
+        return {
+          ...prev,
+          results: [...prev.results, ...feed.videos.filter(v => !existingIds.has(v.id))]
+        };
+      });
+      setHasMore(feed.hasMore);
+    } catch (error) {
+      Logger.error('Client - Failed to load more videos', {
+        error: error instanceof Error ? error.message : error
+      });
+      setState(prev => ({ ...prev, error: '비디오 로딩에 실패했습니다.' }));
+    } finally {
+      setIsAppending(false);
+    }
+  }, [infiniteScroll, hasMore, isInitialLoading, isAppending, fetchVideoFeed, filterQuery]);
+
   const totalPages = Math.ceil(totalCount / VIDEOS_PER_PAGE);
 
-  const generateVideo = useCallback(async (koreanPrompt: string, config: AIModelConfig, userEmail: string) => {
+  const generateVideo = useCallback(async (koreanPrompt: string, config: AIModelConfig, parentVideoId?: string) => {
     const startTime = Date.now();
     const id = uuidv4();
     
     Logger.info('Client - Starting video generation workflow', {
       requestId: id,
       koreanPrompt: koreanPrompt.substring(0, 100) + '...',
-      userEmail,
+      parentVideoId,
     });
 
     // 1. 먼저 관리자 기능 상태 확인 (DB 저장 전)
@@ -321,8 +485,12 @@ export function useVideoGeneration() {
       id,
       koreanPrompt,
       englishPrompt: '',
-      userEmail,
+      userEmail: '', // 서버가 세션에서 결정한 값으로 아래에서 갱신
       status: 'pending',
+      sourceImageUrl: config.firstFrameImage?.url,
+      lastFrameImageUrl: config.lastFrameImage?.url,
+      parentVideoId,
+      generationGroupId: (config.numberOfVideos || 1) > 1 ? id : undefined,
       createdAt: new Date(),
     };
 
@@ -341,13 +509,16 @@ export function useVideoGeneration() {
 
     try {
       // 2. Create initial DB record (관리자 체크 통과 후)
-      await createVideo({
+      const record = await createVideo({
         id: newResult.id,
         korean_prompt: newResult.koreanPrompt,
         english_prompt: '',
-        user_email: userEmail,
         status: 'pending'
       });
+      setState(prev => ({
+        ...prev,
+        results: prev.results.map(r => r.id === id ? { ...r, userEmail: record.user_email } : r)
+      }));
       Logger.step('Client - Initial video record saved', { id });
 
       // 3. Start the entire generation workflow on the server
@@ -358,7 +529,7 @@ export function useVideoGeneration() {
           videoId: id,
           koreanPrompt,
           config,
-          userEmail,
+          parentVideoId,
         }),
       });
 
@@ -369,12 +540,14 @@ export function useVideoGeneration() {
 
       const resultData = await response.json();
       
-      // 4. Update local state to 'generating'
+      // 4. Update local state with the queued job status
       setState(prev => ({
         ...prev,
         isLoading: false,
         results: prev.results.map(r => 
-          r.id === id ? { ...r, status: 'generating' } : r
+          r.id === id
+            ? { ...r, status: resultData.status || 'pending', generationConfig: { ...config, seed: resultData.seed } }
+            : r
         )
       }));
 
@@ -404,13 +577,22 @@ export function useVideoGeneration() {
     }
   }, [createVideo]);
 
-  const deleteSelectedVideos = useCallback(async (deleteKey: string) => {
+  // 저장된 생성 설정(시드 포함)으로 같은 프롬프트를 다시 생성
+  const regenerateVideo = useCallback(async (video: VideoGenerationResult) => {
+    if (!video.generationConfig) {
+      toast.error('저장된 생성 설정이 없어 다시 생성할 수 없습니다.');
+      return;
+    }
+    await generateVideo(video.koreanPrompt, video.generationConfig, video.parentVideoId);
+  }, [generateVideo]);
+
+  const deleteSelectedVideos = useCallback(async () => {
     const videoIdsToDelete = state.selectedIds;
     if (videoIdsToDelete.length === 0) {
       toast.info('삭제할 비디오를 선택해주세요.');
       return;
     }
-    await deleteVideos(videoIdsToDelete, deleteKey);
+    await deleteVideos(videoIdsToDelete);
     setState(prev => ({
       ...prev,
       results: prev.results.filter(r => !videoIdsToDelete.includes(r.id)),
@@ -418,8 +600,8 @@ export function useVideoGeneration() {
     }));
   }, [state.selectedIds, deleteVideos]);
 
-  const clearResults = useCallback(async (deleteKey: string) => {
-    await clearAllVideos(deleteKey);
+  const clearResults = useCallback(async () => {
+    await clearAllVideos();
     setState(prev => ({
       ...prev,
       results: [],
@@ -427,6 +609,16 @@ export function useVideoGeneration() {
     }));
   }, [clearAllVideos]);
 
+  const cancelGeneration = useCallback(async (videoId: string) => {
+    const cancelledVideo = await cancelVideo(videoId);
+    const updated = convertDatabaseRecordToResult(cancelledVideo);
+    setState(prev => ({
+      ...prev,
+      results: prev.results.map(r => r.id === videoId ? updated : r)
+    }));
+    Logger.info('Client - Video generation cancelled', { videoId });
+  }, [cancelVideo]);
+
   const toggleVideoSelection = useCallback((videoId: string) => {
     setState(prev => ({
       ...prev,
@@ -462,9 +654,12 @@ export function useVideoGeneration() {
     currentPage,
     totalPages,
     changePage,
+    loadMoreVideos,
     generateVideo,
     clearResults,
     deleteSelectedVideos,
+    cancelGeneration,
+    regenerateVideo,
     toggleVideoSelection,
     selectAllVideos,
     deselectAllVideos
@@ -0,0 +1,67 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { VideoQueueStatus } from '@/types';
+import { Logger } from '@/lib/logger';
+import { API_CONFIG } from '@/lib/constants';
+import { useVideoEvents } from '@/hooks/use-video-events';
+
+// 대기열 순번 (대기 중인 비디오가 있는 동안 상태 변경을 구독)
+export const useVideoQueue = (enabled: boolean) => {
+  const [queue, setQueue] = useState<VideoQueueStatus | null>(null);
+  const reloadTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch('/api/videos/queue');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch video queue: ${response.status}`);
+      }
+      setQueue(await response.json());
+    } catch (error) {
+      Logger.warn('Client - Failed to load video queue', { error: error instanceof Error ? error.message : error });
+    }
+  }, []);
+
+  // 대기 중인 작업을 우선 처리 (관리자 전용)
+  const expediteVideo = useCallback(async (videoId: string) => {
+    const response = await fetch(`/api/videos/${videoId}/expedite`, { method: 'POST' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to expedite video: ${response.status}`);
+    }
+    Logger.info('Client - Video generation expedited', { videoId });
+    await reload();
+  }, [reload]);
+
+  // 어떤 비디오든 상태가 바뀌면 순번이 달라질 수 있으므로 다시 조회 (여러 알림이 몰려도 한 번만 조회)
+  const handleVideoEvent = useCallback(() => {
+    if (reloadTimerRef.current) return;
+    reloadTimerRef.current = setTimeout(() => {
+      reloadTimerRef.current = null;
+      reload();
+    }, API_CONFIG.POLLING_INTERVAL);
+  }, [reload]);
+  const { isConnected } = useVideoEvents({ enabled, onVideo: handleVideoEvent });
+
+  // 대기 중인 비디오가 생기거나 스트림이 (재)연결되면 한 번 반영
+  useEffect(() => {
+    if (enabled) {
+      reload();
+    }
+  }, [enabled, isConnected, reload]);
+
+  // 스트림이 연결되지 않은 동안에만 폴링
+  useEffect(() => {
+    if (!enabled || isConnected) return;
+    const timer = setInterval(reload, API_CONFIG.POLLING_INTERVAL);
+    return () => clearInterval(timer);
+  }, [enabled, isConnected, reload]);
+
+  useEffect(() => () => {
+    if (reloadTimerRef.current) {
+      clearTimeout(reloadTimerRef.current);
+      reloadTimerRef.current = null;
+    }
+  }, []);
+
+  return { queue: enabled ? queue : null, reload, expediteVideo };
+};
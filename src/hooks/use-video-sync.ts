@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useVideoEvents } from '@/hooks/use-video-events';
 
 export interface VideoSyncStatus {
   videoId: string;
@@ -145,11 +146,30 @@ export function useVideoSync() {
     });
   }, [fetchSyncStatus]);
 
-  // 주기적으로 동기화 상태 업데이트 (다운로드 중인 비디오가 있을 때)
+  // 다운로드 중인 비디오가 있으면 상태 변경 스트림 구독
+  const hasDownloadingVideos = state.syncStatuses.some(status => status.status === 'downloading');
+  const handleSyncEvent = useCallback((syncStatus: VideoSyncStatus) => {
+    setState(prev => ({
+      ...prev,
+      syncStatuses: prev.syncStatuses.some(status => status.videoId === syncStatus.videoId)
+        ? prev.syncStatuses.map(status => status.videoId === syncStatus.videoId ? syncStatus : status)
+        : [...prev.syncStatuses, syncStatus]
+    }));
+  }, []);
+  const { isConnected: isStreamConnected } = useVideoEvents({ enabled: hasDownloadingVideos, onSync: handleSyncEvent });
+
+  // 스트림이 (재)연결되면 연결 전이나 끊긴 사이의 변경을 한 번 가져옴
   useEffect(() => {
-    const downloadingVideos = state.syncStatuses.filter(status => status.status === 'downloading');
-    
-    if (downloadingVideos.length > 0) {
+    if (isStreamConnected) {
+      fetchSyncStatus().catch(error => {
+        console.warn('Failed to refresh sync status:', error);
+      });
+    }
+  }, [isStreamConnected, fetchSyncStatus]);
+
+  // 스트림이 연결되지 않은 동안에만 주기적으로 동기화 상태 업데이트
+  useEffect(() => {
+    if (hasDownloadingVideos && !isStreamConnected) {
       const interval = setInterval(() => {
         fetchSyncStatus().catch(error => {
           console.warn('Failed to refresh sync status:', error);
@@ -158,7 +178,7 @@ export function useVideoSync() {
       
       return () => clearInterval(interval);
     }
-  }, [state.syncStatuses, fetchSyncStatus]);
+  }, [hasDownloadingVideos, isStreamConnected, fetchSyncStatus]);
 
   return {
     syncStatuses: state.syncStatuses,
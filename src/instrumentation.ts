@@ -0,0 +1,9 @@
+export async function register() {
+  // 서버 시작 시 비디오 생성 작업 워커와 Veo 작업 재조정기를 띄워 재시작 전에 남아있던 작업을 이어서 처리
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startVideoJobWorker } = await import('./lib/video-job-worker');
+    const { startVideoOperationReconciler } = await import('./lib/video-operation-reconciler');
+    startVideoJobWorker();
+    startVideoOperationReconciler();
+  }
+}
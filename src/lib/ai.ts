@@ -1,4 +1,4 @@
-import { GenerateContentConfig, GoogleGenAI, HarmCategory, HarmBlockThreshold, PersonGeneration } from '@google/genai';
+import { GenerateContentConfig, GeneratedVideo, GoogleGenAI, HarmCategory, HarmBlockThreshold, Image, PersonGeneration, Video } from '@google/genai';
 import { Logger } from './logger';
 import { TranslationPromptConfig } from '@/types';
 import { API_CONFIG } from './constants';
@@ -36,12 +36,49 @@ const getBaseGenerationConfig = (customConfig?: Partial<GenerateContentConfig>):
   ...customConfig
 });
 
+export class GenerationCancelledError extends Error {
+  constructor(message: string = 'Video generation was cancelled') {
+    super(message);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface VideoGenerationInputs {
+  // First frame for image-to-video generation
+  image?: Image;
+  // Last frame for first-and-last-frame interpolation (requires image)
+  lastFrame?: Image;
+  // Previously generated video to extend
+  video?: Video;
+}
+
+export interface VideoGenerationCallbacks {
+  // Called once the long-running operation has been created
+  onOperationStarted?: (operationName: string) => Promise<void>;
+  // Checked before each attempt and poll; returning true stops the generation
+  isCancelled?: () => Promise<boolean>;
+}
+
+const throwIfCancelled = async (callbacks: VideoGenerationCallbacks, operationName?: string) => {
+  if (callbacks.isCancelled && await callbacks.isCancelled()) {
+    Logger.warn("Video Generation Service - Generation cancelled", { operationName });
+    throw new GenerationCancelledError();
+  }
+};
+
+export interface TranslationResult {
+  text: string;
+  // Token counts reported by Gemini, used for cost estimates
+  inputTokens: number;
+  outputTokens: number;
+}
+
 export class TranslationService {
   static async translateKoreanToEnglish(
     koreanText: string,
     model: string = 'gemini-2.0-flash-lite-001',
     promptConfig?: TranslationPromptConfig
-  ): Promise<string> {
+  ): Promise<TranslationResult> {
     const startTime = Date.now();
     
     // Use default prompt config if not provided
@@ -77,7 +114,7 @@ export class TranslationService {
         }
       });
 
-      const translatedText = await withRetry(async () => {
+      const translation = await withRetry(async () => {
         const response = await ai.models.generateContent({
           model: model,
           contents: [
@@ -89,7 +126,11 @@ export class TranslationService {
           config: generationConfig  
         });
         
-        return response.text || '';
+        return {
+          text: response.text || '',
+          inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+          outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0
+        };
       }, API_CONFIG.MAX_RETRIES, 1000, 'Translation API call');
       
       const duration = Date.now() - startTime;
@@ -97,11 +138,13 @@ export class TranslationService {
       Logger.step("Translation Service - Translation completed", {
         duration: duration,
         durationMs: `${duration}ms`,
-        outputLength: translatedText.length,
-        outputPreview: translatedText.substring(0, 100) + "..."
+        outputLength: translation.text.length,
+        outputPreview: translation.text.substring(0, 100) + "...",
+        inputTokens: translation.inputTokens,
+        outputTokens: translation.outputTokens
       });
       
-      return translatedText;
+      return translation;
     } catch (error) {
       const duration = Date.now() - startTime;
       Logger.error("Translation Service - Translation failed", {
@@ -122,6 +165,8 @@ export class VideoGenerationService {
       supportsAudioGeneration: false,
       supportsVideoExtension: true,
       supportsLastFrame: true,
+      supportsImageToVideo: true,
+      maxNumberOfVideos: 4,
       promptRewriter: {
         supported: true,
         canDisable: true,
@@ -135,6 +180,8 @@ export class VideoGenerationService {
       supportsAudioGeneration: true,
       supportsVideoExtension: false,
       supportsLastFrame: false,
+      supportsImageToVideo: false,
+      maxNumberOfVideos: 2,
       promptRewriter: {
         supported: true,
         canDisable: false,
@@ -146,12 +193,17 @@ export class VideoGenerationService {
   };
 
   // 모델별 파라미터 검증
-  private static validateModelParameters(
+  static validateModelParameters(
     model: string,
     durationSeconds: number,
     generateAudio: boolean,
     enhancePrompt: boolean,
-    aspectRatio: string
+    aspectRatio: string,
+    hasFirstFrameImage: boolean = false,
+    hasLastFrameImage: boolean = false,
+    hasSourceVideo: boolean = false,
+    numberOfVideos: number = 1,
+    seed?: number
   ): { isValid: boolean; errors: string[] } {
     const capabilities = this.MODEL_CAPABILITIES[model as keyof typeof this.MODEL_CAPABILITIES];
     const errors: string[] = [];
@@ -188,6 +240,41 @@ export class VideoGenerationService {
       errors.push(`${model} does not support aspect ratio ${aspectRatio}. Supported ratios: ${capabilities.aspectRatios.join(', ')}`);
     }
 
+    // Image-to-video validation
+    if (hasFirstFrameImage && !capabilities.supportsImageToVideo) {
+      errors.push(`${model} does not support image-to-video generation`);
+    }
+
+    // Last frame validation
+    if (hasLastFrameImage) {
+      if (!capabilities.supportsLastFrame) {
+        errors.push(`${model} does not support last frame interpolation`);
+      }
+      if (!hasFirstFrameImage) {
+        errors.push('Last frame requires a first frame image');
+      }
+    }
+
+    // Number of videos validation
+    if (!Number.isInteger(numberOfVideos) || numberOfVideos < 1 || numberOfVideos > capabilities.maxNumberOfVideos) {
+      errors.push(`${model} can generate between 1-${capabilities.maxNumberOfVideos} videos per request`);
+    }
+
+    // Seed validation
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > API_CONFIG.VIDEO_GENERATION.MAX_SEED)) {
+      errors.push(`Seed must be an integer between 0-${API_CONFIG.VIDEO_GENERATION.MAX_SEED}`);
+    }
+
+    // Video extension validation
+    if (hasSourceVideo) {
+      if (!capabilities.supportsVideoExtension) {
+        errors.push(`${model} does not support video extension`);
+      }
+      if (hasFirstFrameImage || hasLastFrameImage) {
+        errors.push('Video extension cannot be combined with input images');
+      }
+    }
+
     return { isValid: errors.length === 0, errors };
   }
 
@@ -198,12 +285,17 @@ export class VideoGenerationService {
     durationSeconds: number = 8,
     enhancePrompt: boolean = true,
     generateAudio: boolean = false,
-    negativePrompt: string = ''
+    negativePrompt: string = '',
+    aspectRatio: string = '16:9',
+    numberOfVideos: number = 1,
+    seed?: number,
+    inputs: VideoGenerationInputs = {},
+    callbacks: VideoGenerationCallbacks = {}
   ) {
     const startTime = Date.now();
     
     // 모델별 파라미터 검증
-    const validation = this.validateModelParameters(model, durationSeconds, generateAudio, enhancePrompt, '16:9');
+    const validation = this.validateModelParameters(model, durationSeconds, generateAudio, enhancePrompt, aspectRatio, !!inputs.image, !!inputs.lastFrame, !!inputs.video, numberOfVideos, seed);
     if (!validation.isValid) {
       const errorMessage = `Invalid parameters for ${model}: ${validation.errors.join(', ')}`;
       Logger.error("Video Generation Service - Parameter validation failed", {
@@ -225,7 +317,13 @@ export class VideoGenerationService {
       durationSeconds,
       enhancePrompt,
       generateAudio,
-      hasNegativePrompt: !!negativePrompt
+      hasNegativePrompt: !!negativePrompt,
+      aspectRatio,
+      hasFirstFrameImage: !!inputs.image,
+      hasLastFrameImage: !!inputs.lastFrame,
+      hasSourceVideo: !!inputs.video,
+      numberOfVideos,
+      seed
     });
     
     try {
@@ -239,11 +337,13 @@ export class VideoGenerationService {
       });
 
       const videos = await withRetry(async () => {
+          await throwIfCancelled(callbacks);
+
                             // API 파라미터 구성 - 모델별 지원 여부에 따라 동적 구성
           const capabilities = VideoGenerationService.MODEL_CAPABILITIES[model as keyof typeof VideoGenerationService.MODEL_CAPABILITIES];
           const videoConfig: any = {
-            aspectRatio: '16:9',
-            numberOfVideos: 1,
+            aspectRatio: aspectRatio,
+            numberOfVideos: numberOfVideos,
             durationSeconds: durationSeconds,
             outputGcsUri: outputGcsUri,
             personGeneration: PersonGeneration.ALLOW_ALL,
@@ -264,10 +364,22 @@ export class VideoGenerationService {
             videoConfig.negativePrompt = negativePrompt.trim();
           }
 
+          // 시드 설정 (같은 시드와 설정으로 결과를 재현)
+          if (seed !== undefined) {
+            videoConfig.seed = seed;
+          }
+
+          // 마지막 프레임 설정 (첫/마지막 프레임 보간 모드)
+          if (inputs.lastFrame) {
+            videoConfig.lastFrame = inputs.lastFrame;
+          }
+
           // Start the long-running operation
           let operation = await ai.models.generateVideos({
             model: model,
             prompt: englishPrompt,
+            image: inputs.image,
+            video: inputs.video,
             config: videoConfig
           });
 
@@ -282,15 +394,21 @@ export class VideoGenerationService {
           status: operation.done ? 'completed' : 'in-progress'
         });
 
+        // Persist the operation name so polling can resume after a restart
+        if (callbacks.onOperationStarted) {
+          await callbacks.onOperationStarted(operationName);
+        }
+
         // Poll the operation status with improved logic
-        const videos = await this.pollVideoGenerationOperation(operation);
+        const videos = await this.pollVideoGenerationOperation(operation, callbacks);
         
         if (!videos || videos.length === 0) {
           throw new Error('No videos generated');
         }
 
         return videos;
-      }, API_CONFIG.MAX_RETRIES, API_CONFIG.RETRY_BASE_DELAY, 'Video Generation API call');
+      }, API_CONFIG.MAX_RETRIES, API_CONFIG.RETRY_BASE_DELAY, 'Video Generation API call',
+        error => !(error instanceof GenerationCancelledError));
       
       const duration = Date.now() - startTime;
       
@@ -313,11 +431,68 @@ export class VideoGenerationService {
     }
   }
 
+  /**
+   * Fetch the current state of a long-running operation by its name
+   * Used to recover operations whose in-memory handle was lost (e.g. after a restart)
+   */
+  static async getVideoOperationStatus(operationName: string): Promise<{
+    done: boolean;
+    videos?: GeneratedVideo[];
+    error?: string;
+  }> {
+    const operation = await withRetry(
+      () => ai.operations.getVideosOperation({ operation: { name: operationName } }),
+      API_CONFIG.MAX_RETRIES,
+      1000,
+      'Video operation status check'
+    );
+
+    if (!operation.done) {
+      return { done: false };
+    }
+
+    const videos = operation.response?.generatedVideos;
+    if (!videos || videos.length === 0) {
+      const error = operation.error
+        ? String(operation.error.message || JSON.stringify(operation.error))
+        : 'No videos found in completed operation response';
+      return { done: true, error };
+    }
+
+    return { done: true, videos };
+  }
+
+  /**
+   * Resume polling a previously started operation
+   * Returns null if the operation finished without videos, so the caller can start a new one
+   */
+  static async resumeVideoGeneration(
+    operationName: string,
+    callbacks: VideoGenerationCallbacks = {}
+  ): Promise<GeneratedVideo[] | null> {
+    Logger.step("Video Generation Service - Resuming operation", { operationName });
+
+    const status = await this.getVideoOperationStatus(operationName);
+
+    if (status.done) {
+      if (status.error) {
+        Logger.warn("Video Generation Service - Resumed operation had failed", {
+          operationName,
+          error: status.error
+        });
+        return null;
+      }
+      return status.videos!;
+    }
+
+    return this.pollVideoGenerationOperation({ name: operationName, done: false }, callbacks);
+  }
+
   /**
    * Poll video generation operation status with improved error handling
    * Following the best practices from Google Cloud documentation
    */
-  private static async pollVideoGenerationOperation(operation: any): Promise<any[]> {
+  private static async pollVideoGenerationOperation(operation: any, callbacks: VideoGenerationCallbacks = {}): Promise<any[]> {
     const startTime = Date.now();
     let checkCount = 0;
     const config = API_CONFIG.VIDEO_GENERATION;
@@ -365,6 +540,9 @@ export class VideoGenerationService {
           await new Promise(resolve => setTimeout(resolve, pollingInterval));
         }
 
+        // Stop polling if the generation was cancelled in the meantime
+        await throwIfCancelled(callbacks, operationName);
+
         // Poll operation status
         currentOperation = await ai.operations.getVideosOperation({ operation: currentOperation });
 
@@ -401,6 +579,10 @@ export class VideoGenerationService {
          });
 
       } catch (error) {
+        if (error instanceof GenerationCancelledError) {
+          throw error;
+        }
+
         consecutiveErrors++;
         
                  // Handle rate limiting (429 errors) with longer backoff
@@ -101,7 +101,8 @@ export const withRetry = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
   delayMs: number = 1000,
-  operationName: string = 'operation'
+  operationName: string = 'operation',
+  shouldRetry: (error: Error) => boolean = () => true
 ): Promise<T> => {
   let lastError: Error;
   
@@ -111,6 +112,10 @@ export const withRetry = async <T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
+      if (!shouldRetry(lastError)) {
+        throw lastError;
+      }
+      
       if (attempt === maxRetries) {
         Logger.error(`${operationName} failed after ${maxRetries} attempts`, {
           error: lastError.message,
@@ -132,4 +137,40 @@ export const withRetry = async <T>(
   }
   
   throw lastError!;
-}; 
\ No newline at end of file
+}; 
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * from/to 쿼리 파라미터로 조회 기간을 만듦 (from 포함, to 미포함, ISO 날짜/시각)
+ * 생략하면 오늘(UTC)까지 최근 defaultDays일, 잘못된 값이나 maxDays를 넘는 기간은 400 ApiError
+ */
+export const parseDateRangeParams = (
+  searchParams: URLSearchParams,
+  defaultDays: number,
+  maxDays: number
+): { from: Date; to: Date } => {
+  const now = new Date();
+  const tomorrow = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+
+  const parseDate = (key: string, fallback: Date) => {
+    const value = searchParams.get(key);
+    if (!value) return fallback;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ApiError(`Invalid ${key} date: ${value}`, 400);
+    }
+    return date;
+  };
+
+  const to = parseDate('to', tomorrow);
+  const from = parseDate('from', new Date(to.getTime() - defaultDays * DAY_MS));
+
+  if (from >= to) {
+    throw new ApiError('from must be earlier than to', 400);
+  }
+  if (to.getTime() - from.getTime() > maxDays * DAY_MS) {
+    throw new ApiError(`Date range cannot exceed ${maxDays} days`, 400);
+  }
+  return { from, to };
+};
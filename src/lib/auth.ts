@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, randomBytes } from 'crypto';
+import { getDatabase, UserRecord } from './database';
+import { Logger } from './logger';
+import { ApiError } from './api-utils';
+import { AUTH_CONFIG } from './constants';
+import { signSessionToken, verifySessionToken } from './session-token';
+import { hasRole } from './permissions';
+import { AuthUser, USER_ROLES, UserRole } from '@/types';
+
+// 매직 링크 전달 방식: console(개발용 대체 제공자) 또는 webhook(메일 발송 서비스로 전달)
+type MagicLinkProvider = 'console' | 'webhook';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toAuthUser(user: UserRecord): AuthUser {
+  return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
+
+// Role given to users on their first login (AUTH_DEFAULT_ROLE, defaults to creator)
+function getDefaultRole(): UserRole {
+  const role = process.env.AUTH_DEFAULT_ROLE as UserRole;
+  return USER_ROLES.includes(role) ? role : 'creator';
+}
+
+// Emails listed in AUTH_ADMIN_EMAILS are promoted to admin on login so the first admin can be bootstrapped
+function isBootstrapAdmin(email: string): boolean {
+  return (process.env.AUTH_ADMIN_EMAILS || '')
+    .split(',')
+    .map(adminEmail => adminEmail.trim().toLowerCase())
+    .includes(email);
+}
+
+function getMagicLinkProvider(): MagicLinkProvider {
+  return process.env.AUTH_EMAIL_PROVIDER === 'webhook' ? 'webhook' : 'console';
+}
+
+export function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) ? normalized : null;
+}
+
+// Only same-site relative paths are allowed as post-login redirect targets
+export function getSafeRedirectPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+// 개발 환경에서는 메일 없이 로그인할 수 있도록 링크를 응답에 포함
+export function isDevLoginLinkExposed(): boolean {
+  return getMagicLinkProvider() === 'console' && process.env.NODE_ENV !== 'production';
+}
+
+async function deliverMagicLink(email: string, loginUrl: string): Promise<void> {
+  if (getMagicLinkProvider() === 'webhook') {
+    const webhookUrl = process.env.AUTH_EMAIL_WEBHOOK_URL;
+    if (!webhookUrl) {
+      throw new Error('AUTH_EMAIL_WEBHOOK_URL is required when AUTH_EMAIL_PROVIDER=webhook');
+    }
+
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        to: email,
+        subject: 'Veo 대시보드 로그인 링크',
+        text: `아래 링크를 열어 로그인하세요. 링크는 ${AUTH_CONFIG.LOGIN_TOKEN_TTL / 60000}분 후 만료됩니다.\n\n${loginUrl}`,
+        loginUrl
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Magic link webhook failed: ${response.status}`);
+    }
+    Logger.step('Magic link delivered via webhook', { email });
+    return;
+  }
+
+  Logger.info('Magic link (console provider)', { email, loginUrl });
+}
+
+// Create a single-use login token and deliver the link; returns the link for the dev provider
+// 링크 주소는 설정된 NEXT_PUBLIC_BASE_URL만 사용 (요청의 Host 헤더로 다른 도메인 링크가 발송되지 않도록)
+export async function sendLoginLink(email: string, next?: string): Promise<string> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+  if (!baseUrl) {
+    throw new Error('NEXT_PUBLIC_BASE_URL is required to send login links');
+  }
+
+  const token = randomBytes(32).toString('hex');
+  const db = await getDatabase();
+  await db.createLoginToken(hashToken(token), email, AUTH_CONFIG.LOGIN_TOKEN_TTL);
+
+  const loginUrl = new URL('/api/auth/callback', baseUrl);
+  loginUrl.searchParams.set('token', token);
+  loginUrl.searchParams.set('next', getSafeRedirectPath(next));
+  await deliverMagicLink(email, loginUrl.toString());
+  return loginUrl.toString();
+}
+
+// Exchange a login token for a new session; returns null for invalid, used or expired tokens
+export async function completeLogin(token: string): Promise<{ user: AuthUser; cookieValue: string; expiresAt: Date } | null> {
+  const db = await getDatabase();
+  const email = await db.consumeLoginToken(hashToken(token));
+  if (!email) {
+    return null;
+  }
+
+  const user = await db.upsertUserByEmail(email, getDefaultRole(), isBootstrapAdmin(email));
+  const sessionId = randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + AUTH_CONFIG.SESSION_DURATION);
+  await db.createSession(hashToken(sessionId), user.id, expiresAt);
+
+  const cookieValue = await signSessionToken({ sessionId, expiresAt: expiresAt.getTime() });
+  return { user: toAuthUser(user), cookieValue, expiresAt };
+}
+
+// Resolve the signed-in user from the session cookie (signature, expiry and revocation)
+export async function getSessionUser(request: NextRequest): Promise<AuthUser | null> {
+  const payload = await verifySessionToken(request.cookies.get(AUTH_CONFIG.SESSION_COOKIE_NAME)?.value);
+  if (!payload) {
+    return null;
+  }
+
+  const db = await getDatabase();
+  const user = await db.getSessionUser(hashToken(payload.sessionId));
+  return user ? toAuthUser(user) : null;
+}
+
+export async function requireSessionUser(request: NextRequest): Promise<AuthUser> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    throw new ApiError('Authentication required', 401, 'UNAUTHENTICATED');
+  }
+  return user;
+}
+
+export async function requireRole(request: NextRequest, role: UserRole): Promise<AuthUser> {
+  const user = await requireSessionUser(request);
+  if (!hasRole(user, role)) {
+    throw new ApiError(`The ${role} role is required`, 403, 'FORBIDDEN');
+  }
+  return user;
+}
+
+export async function destroySession(request: NextRequest): Promise<void> {
+  const payload = await verifySessionToken(request.cookies.get(AUTH_CONFIG.SESSION_COOKIE_NAME)?.value);
+  if (payload) {
+    const db = await getDatabase();
+    await db.deleteSession(hashToken(payload.sessionId));
+  }
+}
+
+export function setSessionCookie(response: NextResponse, cookieValue: string, expiresAt: Date): void {
+  response.cookies.set(AUTH_CONFIG.SESSION_COOKIE_NAME, cookieValue, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(AUTH_CONFIG.SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,168 @@
+// 배치 가져오기 파일(CSV/JSON) 해석 (클라이언트 미리보기와 서버 검증에서 공통으로 사용)
+import { AIModelConfig } from '@/types';
+import { BATCH_CONFIG } from './constants';
+
+export type BatchOverrideField = typeof BATCH_CONFIG.OVERRIDABLE_FIELDS[number];
+
+// 행마다 폼의 기본 설정 대신 사용할 값
+export type BatchConfigOverrides = Partial<Pick<AIModelConfig, BatchOverrideField>>;
+
+export interface BatchPromptRow {
+  prompt: string;
+  overrides: BatchConfigOverrides;
+}
+
+const NUMBER_FIELDS: BatchOverrideField[] = ['durationSeconds', 'seed', 'numberOfVideos'];
+const BOOLEAN_FIELDS: BatchOverrideField[] = ['generateAudio', 'enhancePrompt'];
+
+const isOverrideField = (field: string): field is BatchOverrideField =>
+  (BATCH_CONFIG.OVERRIDABLE_FIELDS as readonly string[]).includes(field);
+
+// CSV 값은 모두 문자열이므로 필드 타입에 맞게 변환 (빈 값은 폼 설정 사용)
+function coerceOverrideValue(field: BatchOverrideField, value: unknown): string | number | boolean | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  if (NUMBER_FIELDS.includes(field)) {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isInteger(number)) {
+      throw new Error(`${field} must be an integer`);
+    }
+    return number;
+  }
+
+  if (BOOLEAN_FIELDS.includes(field)) {
+    if (typeof value === 'boolean') return value;
+    const normalized = String(value).trim().toLowerCase();
+    if (normalized === 'true') return true;
+    if (normalized === 'false') return false;
+    throw new Error(`${field} must be true or false`);
+  }
+
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+// 허용된 필드만 남기고 값 형식을 검증 (알 수 없는 필드는 오류)
+export function normalizeBatchOverrides(raw: Record<string, unknown>): BatchConfigOverrides {
+  const overrides: Record<string, string | number | boolean> = {};
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (!isOverrideField(field)) {
+      throw new Error(`Unknown config field: ${field}`);
+    }
+    const coerced = coerceOverrideValue(field, value);
+    if (coerced !== undefined) {
+      overrides[field] = coerced;
+    }
+  }
+
+  return overrides as BatchConfigOverrides;
+}
+
+// 따옴표로 감싼 값(쉼표, 줄바꿈, "" 이스케이프 포함)을 지원하는 CSV 파서
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted value');
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 빈 줄 제외
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+function toBatchRow(raw: Record<string, unknown>, rowNumber: number): BatchPromptRow {
+  const { prompt, ...rest } = raw;
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    throw new Error(`Row ${rowNumber}: prompt is required`);
+  }
+
+  try {
+    return { prompt: prompt.trim(), overrides: normalizeBatchOverrides(rest) };
+  } catch (error) {
+    throw new Error(`Row ${rowNumber}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * CSV(첫 줄은 prompt 및 설정 필드 이름) 또는 JSON(문자열이나 { prompt, ...설정 } 객체의 배열) 파일을 해석
+ * 형식이 잘못되었거나 프롬프트 수가 제한을 넘으면 Error
+ */
+export function parseBatchFile(text: string, fileName: string): BatchPromptRow[] {
+  let rows: BatchPromptRow[];
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid JSON file');
+    }
+    if (!Array.isArray(data)) {
+      throw new Error('JSON file must contain an array of prompts');
+    }
+    rows = data.map((item, index) => {
+      if (typeof item === 'string') return toBatchRow({ prompt: item }, index + 1);
+      if (item && typeof item === 'object' && !Array.isArray(item)) return toBatchRow(item as Record<string, unknown>, index + 1);
+      throw new Error(`Row ${index + 1}: expected a prompt string or object`);
+    });
+  } else {
+    // 엑셀에서 저장한 UTF-8 CSV의 BOM 제거
+    const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+    const columns = (header || []).map(column => column.trim());
+    if (!columns.includes('prompt')) {
+      throw new Error('CSV header must include a prompt column');
+    }
+    rows = records.map((record, index) => toBatchRow(
+      Object.fromEntries(columns
+        .map((column, columnIndex) => [column, record[columnIndex]?.trim() ?? ''])
+        .filter(([column]) => column)),
+      index + 1
+    ));
+  }
+
+  if (rows.length === 0) {
+    throw new Error('File does not contain any prompts');
+  }
+  if (rows.length > BATCH_CONFIG.MAX_PROMPTS) {
+    throw new Error(`A batch can contain at most ${BATCH_CONFIG.MAX_PROMPTS} prompts`);
+  }
+  return rows;
+}
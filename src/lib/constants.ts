@@ -3,11 +3,13 @@ import { VideoGenerationResult } from '@/types';
 // Status related constants
 export const VIDEO_STATUS = {
   PENDING: 'pending',
+  QUEUED: 'queued',
   TRANSLATING: 'translating', 
   GENERATING: 'generating',
   PROCESSING: 'processing',
   COMPLETED: 'completed',
-  ERROR: 'error'
+  ERROR: 'error',
+  CANCELLED: 'cancelled'
 } as const;
 
 export const STATUS_INFO = {
@@ -17,6 +19,12 @@ export const STATUS_INFO = {
     color: 'bg-gray-500',
     variant: 'secondary' as const
   },
+  [VIDEO_STATUS.QUEUED]: { 
+    text: '대기열', 
+    progress: 15, 
+    color: 'bg-slate-500',
+    variant: 'secondary' as const
+  },
   [VIDEO_STATUS.TRANSLATING]: { 
     text: '번역 중', 
     progress: 25, 
@@ -46,6 +54,12 @@ export const STATUS_INFO = {
     progress: 0, 
     color: 'bg-red-500',
     variant: 'secondary' as const
+  },
+  [VIDEO_STATUS.CANCELLED]: { 
+    text: '취소됨', 
+    progress: 0, 
+    color: 'bg-gray-400',
+    variant: 'outline' as const
   }
 } as const;
 
@@ -63,14 +77,120 @@ export const API_CONFIG = {
     EXPONENTIAL_BACKOFF_FACTOR: 1.5, // Gradual increase in polling interval
     JITTER_MAX: 1000, // Add up to 1 second of random jitter
     MAX_CONSECUTIVE_ERRORS: 3, // Maximum consecutive errors before failing
-    RATE_LIMIT_BACKOFF_MAX: 60000 // Maximum 1 minute backoff for rate limits
+    RATE_LIMIT_BACKOFF_MAX: 60000, // Maximum 1 minute backoff for rate limits
+    MAX_SEED: 4294967295 // Veo accepts seeds in the uint32 range
+  },
+  // Durable job queue settings
+  JOB_QUEUE: {
+    POLL_INTERVAL: 2000, // How often the worker looks for runnable jobs
+    LEASE_DURATION: 2 * 60 * 1000, // Lease expires 2 minutes after the last heartbeat
+    HEARTBEAT_INTERVAL: 30000, // Extend the lease every 30 seconds while a job runs
+    MAX_ATTEMPTS: 4, // First attempt + 3 retries
+    RETRY_BASE_DELAY: 5000, // 5s, 10s, 20s between attempts
+    MAX_ACTIVE_JOBS: 20, // Upper bound of jobs one worker runs at the same time
+    MAX_ACTIVE_JOBS_PER_BATCH: 3, // Jobs of one batch import running at the same time, so other users are not starved
+    // Veo operations running at the same time across all workers, overridden by MAX_CONCURRENT_VIDEO_GENERATIONS;
+    // per-model limits come from MAX_CONCURRENT_VIDEO_GENERATIONS_PER_MODEL ("model=count,...")
+    MAX_CONCURRENT_VEO_OPERATIONS: 2,
+    EXPEDITED_PRIORITY: 10, // Priority set by the admin expedite action (normal jobs are 0)
+    PRIORITY_AGING_INTERVAL: 5 * 60 * 1000, // Waiting jobs gain one priority level every 5 minutes, so normal jobs are never starved
+    ORPHAN_CHECK_INTERVAL: 60000, // How often in-progress rows without a job are checked
+    ORPHAN_TIMEOUT: 10 * 60 * 1000, // In-progress rows without a job older than this are failed
+    OPERATION_RECONCILE_INTERVAL: 60000 // How often unattended Veo operations are re-queried
+  },
+  // Server-Sent Events stream for status updates
+  EVENT_STREAM: {
+    HEARTBEAT_INTERVAL: 25000, // Comment line that keeps proxies from closing idle streams
+    RECONNECT_DELAY: 5000 // Browser retry delay and server LISTEN reconnect delay
   }
 } as const;
 
+// Upload Configuration
+export const UPLOAD_CONFIG = {
+  MAX_IMAGE_SIZE: 10 * 1024 * 1024, // 10MB
+  ALLOWED_IMAGE_TYPES: ['image/png', 'image/jpeg'] as string[], // Image formats accepted by Veo
+  IMAGE_EXTENSIONS: {
+    'image/png': 'png',
+    'image/jpeg': 'jpg'
+  } as Record<string, string>
+} as const;
+
+// Batch Import Configuration
+export const BATCH_CONFIG = {
+  MAX_PROMPTS: 50, // Prompts accepted in one batch import
+  MAX_FILE_SIZE: 1024 * 1024, // 1MB CSV or JSON file
+  // AIModelConfig fields a row may override (translation prompts come from the form; input images are not used)
+  OVERRIDABLE_FIELDS: [
+    'translationModel',
+    'videoGenerationModel',
+    'durationSeconds',
+    'aspectRatio',
+    'generateAudio',
+    'enhancePrompt',
+    'negativePrompt',
+    'seed',
+    'numberOfVideos'
+  ] as const
+} as const;
+
+// Cost Estimation (USD list prices; update when Vertex AI pricing changes)
+export const COST_CONFIG = {
+  // Price per second of generated video, per sample
+  VIDEO_PRICE_PER_SECOND: {
+    'veo-2.0-generate-001': { video: 0.5, videoWithAudio: 0.5 },
+    'veo-3.0-generate-preview': { video: 0.5, videoWithAudio: 0.75 }
+  } as Record<string, { video: number; videoWithAudio: number }>,
+  DEFAULT_VIDEO_PRICE_PER_SECOND: { video: 0.5, videoWithAudio: 0.75 }, // Models missing above
+  // Price per million tokens
+  TRANSLATION_PRICE_PER_MILLION_TOKENS: {
+    'gemini-2.0-flash-lite-001': { input: 0.075, output: 0.3 },
+    'gemini-2.0-flash-001': { input: 0.15, output: 0.6 }
+  } as Record<string, { input: number; output: number }>,
+  DEFAULT_TRANSLATION_PRICE_PER_MILLION_TOKENS: { input: 0.15, output: 0.6 }, // Models missing above
+  DEFAULT_REPORT_DAYS: 30,
+  MAX_REPORT_DAYS: 366
+} as const;
+
+// Analytics Configuration
+export const ANALYTICS_CONFIG = {
+  DEFAULT_RANGE_DAYS: 30,
+  MAX_RANGE_DAYS: 366,
+  // Error messages are grouped by the first matching pattern (case-insensitive regex); the rest count as 'other'
+  ERROR_CATEGORIES: [
+    { key: 'quota', label: '생성 한도 초과', pattern: 'generation quota exceeded|generation budget' },
+    { key: 'rate_limit', label: 'API 요청 한도', pattern: '429|resource.?exhausted|rate.?limit' },
+    { key: 'safety', label: '안전 정책 차단', pattern: 'safety|responsible ai|blocked|filtered' },
+    { key: 'invalid_request', label: '잘못된 요청', pattern: 'invalid parameters|not available for extension' },
+    { key: 'timeout', label: '시간 초과', pattern: 'timeout|timed out|stopped responding' },
+    { key: 'translation', label: '번역 실패', pattern: 'translat' },
+    { key: 'processing', label: '다운로드/후처리 실패', pattern: 'video processing failed|no video uri|no videos generated' }
+  ],
+  OTHER_ERROR_LABEL: '기타'
+} as const;
+
+// Authentication Configuration
+export const AUTH_CONFIG = {
+  SESSION_COOKIE_NAME: 'veo_session',
+  SESSION_DURATION: 30 * 24 * 60 * 60 * 1000, // 30 days
+  LOGIN_TOKEN_TTL: 15 * 60 * 1000, // Magic links expire after 15 minutes
+  LOGIN_PATH: '/login',
+  // Paths reachable without a session (prefix match)
+  PUBLIC_PATHS: ['/login', '/api/auth/', '/health', '/favicon', '/opengraph-image', '/twitter-image', '/admin/opengraph-image', '/admin/twitter-image']
+} as const;
+
 // UI Constants
 export const UI_CONFIG = {
   DEFAULT_PAGE_SIZE: 50,
   THUMBNAIL_MIN_HEIGHT: 180,
+  SEARCH_DEBOUNCE_MS: 400,
+  PROGRESS_TICK_INTERVAL: 1000,
+  // Seconds assumed per generation stage until a model has completed videos to learn from
+  DEFAULT_STAGE_SECONDS: {
+    pending: 5,
+    translating: 5,
+    generating: 90,
+    processing: 15
+  },
   TRUNCATE_LENGTH: {
     TITLE: 100,
     PREVIEW: 50,
@@ -86,6 +206,7 @@ export const getStatusInfo = (status: VideoGenerationResult['status']) => {
 export const isProgressingStatus = (status: VideoGenerationResult['status']) => {
   return [
     VIDEO_STATUS.PENDING,
+    VIDEO_STATUS.QUEUED,
     VIDEO_STATUS.TRANSLATING, 
     VIDEO_STATUS.GENERATING,
     VIDEO_STATUS.PROCESSING
@@ -98,4 +219,8 @@ export const isCompletedStatus = (status: VideoGenerationResult['status']) => {
 
 export const isErrorStatus = (status: VideoGenerationResult['status']) => {
   return status === VIDEO_STATUS.ERROR;
+};
+
+export const isCancelledStatus = (status: VideoGenerationResult['status']) => {
+  return status === VIDEO_STATUS.CANCELLED;
 }; 
\ No newline at end of file
@@ -1,20 +1,254 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { Logger } from './logger';
+import { AIModelConfig, GenerationQuotaLimits, UserRole } from '@/types';
 
 export interface VideoRecord {
   id: string;
   korean_prompt: string;
   english_prompt: string;
   user_email: string;
-  status: 'pending' | 'translating' | 'generating' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'queued' | 'translating' | 'generating' | 'processing' | 'completed' | 'error' | 'cancelled';
   video_url?: string;
   thumbnail_url?: string;
   gcs_uri?: string;
   duration?: number;
   resolution?: string;
   error_message?: string;
+  operation_name?: string;
+  source_image_url?: string;
+  last_frame_image_url?: string;
+  parent_video_id?: string;
+  generation_group_id?: string;
+  generation_config?: AIModelConfig;
+  // Shared by every video submitted together from one batch import
+  batch_id?: string;
   created_at: string;
   completed_at?: string;
+  // Per-stage timestamps for progress and ETA
+  translation_started_at?: string;
+  translation_completed_at?: string;
+  operation_started_at?: string;
+  processing_started_at?: string;
+}
+
+// admin_settings entries for the user daily, user monthly and global monthly generation limits
+export const GENERATION_QUOTA_SETTINGS: Record<keyof GenerationQuotaLimits, { key: string; description: string }> = {
+  userDaily: { key: 'quota_user_daily', description: 'Videos each user may generate per day (UTC), empty for unlimited' },
+  userMonthly: { key: 'quota_user_monthly', description: 'Videos each user may generate per month (UTC), empty for unlimited' },
+  globalMonthly: { key: 'quota_global_monthly', description: 'Videos all users together may generate per month (UTC), empty for unlimited' }
+};
+
+// LISTEN/NOTIFY channel carrying { id, status } whenever a video record changes
+export const VIDEO_CHANGES_CHANNEL = 'video_changes';
+
+export interface VideoListFilters {
+  userEmail?: string;
+  // Search text matched against Korean and English prompts
+  q?: string;
+  statuses?: VideoRecord['status'][];
+  // created_at range: from is inclusive, to is exclusive
+  createdFrom?: Date;
+  createdTo?: Date;
+  model?: string;
+  resolution?: string;
+  durationSeconds?: number;
+  hasAudio?: boolean;
+  batchId?: string;
+}
+
+// Keyset position in the (created_at DESC, id ASC) feed order
+export interface VideoCursor {
+  // created_at as Postgres text, keeping microsecond precision
+  createdAt: string;
+  id: string;
+}
+
+// Median seconds spent in each generation stage for one model
+export interface VideoStageDurations {
+  model: string;
+  pending_seconds: number | null;
+  translating_seconds: number | null;
+  generating_seconds: number | null;
+  processing_seconds: number | null;
+  sample_count: number;
+}
+
+// Progress of one batch import, counted per prompt (extra samples of a group are not counted)
+export interface VideoBatchSummary {
+  batch_id: string;
+  user_email: string;
+  total: number;
+  pending: number;
+  in_progress: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  created_at: string;
+  last_completed_at?: string;
+}
+
+// Generations counted against quotas (each requested sample counts; failures before the Veo call do not)
+export interface GenerationUsage {
+  user_daily: number;
+  user_monthly: number;
+  global_monthly: number;
+}
+
+// One billable API call with its estimated cost
+// Rows are kept when videos are deleted so spend history stays intact
+export interface GenerationCostRecord {
+  id: number;
+  kind: 'translation' | 'video';
+  video_id?: string;
+  user_email?: string;
+  model: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  // Billed seconds across all generated samples
+  video_seconds?: number;
+  generate_audio?: boolean;
+  estimated_cost_usd: number;
+  created_at: string;
+}
+
+// Estimated spend grouped by day, user and model for the admin cost report
+export interface GenerationCostBreakdown {
+  daily: { day: string; video_cost_usd: number; translation_cost_usd: number }[];
+  users: { user_email: string; cost_usd: number; video_count: number; translation_count: number }[];
+  models: { model: string; kind: GenerationCostRecord['kind']; cost_usd: number; call_count: number }[];
+}
+
+// Videos per final status, counted per prompt (extra samples of a group are not counted)
+export interface VideoOutcomeCountsRow {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
+// Aggregates for the analytics page over a created_at range
+export interface VideoAnalyticsRows {
+  summary: VideoOutcomeCountsRow;
+  daily: (VideoOutcomeCountsRow & { day: string })[];
+  models: (VideoOutcomeCountsRow & { model: string; median_generation_seconds: number | null })[];
+  error_categories: { category: string; count: number }[];
+}
+
+export interface VideoCreator {
+  user_email: string;
+  video_count: number;
+}
+
+export interface VideoJobPayload {
+  koreanPrompt: string;
+  config: AIModelConfig;
+}
+
+export interface VideoJobRecord {
+  id: number;
+  video_id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  payload: VideoJobPayload;
+  batch_id?: string;
+  priority: number;
+  attempts: number;
+  max_attempts: number;
+  next_run_at: string;
+  locked_by?: string;
+  locked_until?: string;
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Simultaneous Veo operations allowed in total and per video generation model (models missing from perModel share the global limit)
+export interface VeoConcurrencyLimits {
+  global: number;
+  perModel: Record<string, number>;
+}
+
+// A queued job's place in the scheduler order (1 runs next)
+export interface VideoQueueEntry {
+  video_id: string;
+  model: string;
+  priority: number;
+  position: number;
+}
+
+// Order in which the scheduler leases queued jobs: higher priority first, FIFO within the same priority.
+// Waiting jobs gain one priority level per aging interval (ms, given as a query parameter),
+// so older normal jobs eventually overtake newly expedited ones instead of starving.
+const videoJobQueueOrder = (jobs: string, agingIntervalParam: string) => `
+  ${jobs}.priority + FLOOR(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - ${jobs}.created_at)) * 1000 / ${agingIntervalParam}) DESC,
+  ${jobs}.next_run_at ASC,
+  ${jobs}.id ASC
+`;
+
+// Videos holding a Veo slot: only 'generating' has a Veo operation running (translation and processing do not)
+const ACTIVE_VEO_OPERATIONS_SQL = `
+  SELECT id AS video_id, generation_config->>'videoGenerationModel' AS model
+  FROM videos
+  WHERE status = 'generating'
+`;
+
+// Advisory lock that serializes leasing jobs and claiming Veo slots across all workers
+const VIDEO_SCHEDULER_LOCK = 'video_job_scheduler';
+
+// Advisory locks that serialize quota reservations (global budget, then per user)
+const GENERATION_QUOTA_LOCK = 'generation_quota';
+const getUserQuotaLock = (userEmail: string) => `generation_quota:${userEmail}`;
+
+// Generations that never reached Veo (failed or cancelled before the operation started) do not use quota
+const REFUNDABLE_VIDEO_CONDITION = `videos.status IN ('error', 'cancelled') AND videos.operation_started_at IS NULL`;
+
+// Usage since the start of the day ($2) and month ($3) from the ledger, leaving out the videos being reserved ($4)
+// Rows of deleted videos still count, unless they were released when the video was deleted.
+const GENERATION_USAGE_SQL = `
+  SELECT
+    COALESCE(SUM(generations) FILTER (WHERE user_email = $1 AND created_at >= $2), 0)::int AS user_daily,
+    COALESCE(SUM(generations) FILTER (WHERE user_email = $1), 0)::int AS user_monthly,
+    COALESCE(SUM(generations), 0)::int AS global_monthly
+  FROM (
+    SELECT ledger.user_email, ledger.created_at, ledger.generations
+    FROM generation_usage ledger
+    LEFT JOIN videos ON videos.id = ledger.video_id
+    WHERE ledger.created_at >= $3
+      AND ledger.video_id <> ALL($4::varchar[])
+      AND NOT COALESCE(${REFUNDABLE_VIDEO_CONDITION}, false)
+  ) counted
+`;
+
+// Release the reservations of the given videos ($1) that would no longer count once they are deleted
+const RELEASE_REFUNDABLE_USAGE_SQL = `
+  INSERT INTO generation_usage (video_id, user_email, generations, created_at)
+  SELECT ledger.video_id, ledger.user_email, -ledger.generations, ledger.created_at
+  FROM generation_usage ledger
+  JOIN videos ON videos.id = ledger.video_id
+  WHERE ledger.video_id = ANY($1::varchar[])
+    AND ledger.generations > 0
+    AND ${REFUNDABLE_VIDEO_CONDITION}
+  ON CONFLICT (video_id) WHERE generations < 0 DO NOTHING
+`;
+
+export interface UserRecord {
+  id: number;
+  email: string;
+  name?: string;
+  role: UserRole;
+  created_at: string;
+  last_login_at?: string;
+}
+
+export interface PromptTemplateRecord {
+  id: number;
+  name: string;
+  // Korean prompt text; {{variable}} placeholders are filled in at submit time
+  content: string;
+  description?: string;
+  owner_email: string;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface AdminSetting {
@@ -108,6 +342,119 @@ class VideoDatabase {
       
       await this.pool.query(createAdminSettingsTableSQL);
       
+      // Create video_jobs table if it doesn't exist (durable generation queue)
+      const createVideoJobsTableSQL = `
+        CREATE TABLE IF NOT EXISTS video_jobs (
+          id SERIAL PRIMARY KEY,
+          video_id VARCHAR(255) NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+          status VARCHAR(50) NOT NULL DEFAULT 'queued',
+          payload JSONB NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 4,
+          next_run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          locked_by VARCHAR(255),
+          locked_until TIMESTAMP,
+          last_error TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      await this.pool.query(createVideoJobsTableSQL);
+      
+      // Create users table if it doesn't exist
+      const createUsersTableSQL = `
+        CREATE TABLE IF NOT EXISTS users (
+          id SERIAL PRIMARY KEY,
+          email VARCHAR(255) NOT NULL UNIQUE,
+          name VARCHAR(255),
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          last_login_at TIMESTAMP
+        )
+      `;
+      
+      await this.pool.query(createUsersTableSQL);
+      
+      // Add role column if it doesn't exist (for existing tables)
+      const addUserRoleColumnSQL = `
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(50) NOT NULL DEFAULT 'creator';
+      `;
+      
+      await this.pool.query(addUserRoleColumnSQL);
+      
+      // Create sessions table if it doesn't exist (only token hashes are stored)
+      const createSessionsTableSQL = `
+        CREATE TABLE IF NOT EXISTS sessions (
+          id VARCHAR(255) PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          expires_at TIMESTAMP NOT NULL,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      await this.pool.query(createSessionsTableSQL);
+      
+      // Create login_tokens table if it doesn't exist (single-use magic link tokens)
+      const createLoginTokensTableSQL = `
+        CREATE TABLE IF NOT EXISTS login_tokens (
+          token_hash VARCHAR(255) PRIMARY KEY,
+          email VARCHAR(255) NOT NULL,
+          expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      await this.pool.query(createLoginTokensTableSQL);
+      
+      // Create prompt_templates table if it doesn't exist (reusable prompts, optionally shared with everyone)
+      const createPromptTemplatesTableSQL = `
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          id SERIAL PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          content TEXT NOT NULL,
+          description TEXT,
+          owner_email VARCHAR(255) NOT NULL,
+          is_shared BOOLEAN NOT NULL DEFAULT false,
+          created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+      
+      await this.pool.query(createPromptTemplatesTableSQL);
+      
+      // Create generation_costs table if it doesn't exist (estimated cost of each translation and Veo call)
+      const createGenerationCostsTableSQL = `
+        CREATE TABLE IF NOT EXISTS generation_costs (
+          id SERIAL PRIMARY KEY,
+          kind VARCHAR(20) NOT NULL,
+          video_id VARCHAR(255),
+          user_email VARCHAR(255),
+          model VARCHAR(255) NOT NULL,
+          input_tokens INTEGER,
+          output_tokens INTEGER,
+          video_seconds INTEGER,
+          generate_audio BOOLEAN,
+          estimated_cost_usd NUMERIC(12, 6) NOT NULL,
+          created_at TIMESTAMP NOT NULL
+        )
+      `;
+      
+      await this.pool.query(createGenerationCostsTableSQL);
+      
+      // Create generation_usage table if it doesn't exist (append-only quota ledger, kept when videos are deleted)
+      const createGenerationUsageTableSQL = `
+        CREATE TABLE IF NOT EXISTS generation_usage (
+          id SERIAL PRIMARY KEY,
+          video_id VARCHAR(255) NOT NULL,
+          user_email VARCHAR(255) NOT NULL,
+          generations INTEGER NOT NULL,
+          created_at TIMESTAMP NOT NULL
+        )
+      `;
+      
+      await this.pool.query(createGenerationUsageTableSQL);
+      
       // Add gcs_uri column if it doesn't exist (for existing tables)
       const addGcsUriColumnSQL = `
         ALTER TABLE videos ADD COLUMN IF NOT EXISTS gcs_uri TEXT;
@@ -122,15 +469,126 @@ class VideoDatabase {
       
       await this.pool.query(addUserEmailColumnSQL);
       
+      // Add operation_name column if it doesn't exist (Veo long-running operation)
+      const addOperationNameColumnSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS operation_name TEXT;
+      `;
+      
+      await this.pool.query(addOperationNameColumnSQL);
+      
+      // Add source_image_url column if it doesn't exist (image-to-video first frame)
+      const addSourceImageUrlColumnSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS source_image_url TEXT;
+      `;
+      
+      await this.pool.query(addSourceImageUrlColumnSQL);
+      
+      // Add last_frame_image_url column if it doesn't exist (first-and-last-frame interpolation)
+      const addLastFrameImageUrlColumnSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS last_frame_image_url TEXT;
+      `;
+      
+      await this.pool.query(addLastFrameImageUrlColumnSQL);
+      
+      // Add parent_video_id column if it doesn't exist (video extension lineage)
+      const addParentVideoIdColumnSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS parent_video_id VARCHAR(255) REFERENCES videos(id) ON DELETE SET NULL;
+      `;
+      
+      await this.pool.query(addParentVideoIdColumnSQL);
+      
+      // Add generation_group_id column if it doesn't exist (multiple samples per prompt)
+      const addGenerationGroupIdColumnSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS generation_group_id VARCHAR(255);
+      `;
+      
+      await this.pool.query(addGenerationGroupIdColumnSQL);
+      
+      // Add generation_config column if it doesn't exist (settings used for the generation, including seed)
+      const addGenerationConfigColumnSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS generation_config JSONB;
+      `;
+      
+      await this.pool.query(addGenerationConfigColumnSQL);
+      
+      // Add per-stage timestamp columns if they don't exist (live progress and ETA)
+      const addStageTimestampColumnsSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS translation_started_at TIMESTAMP;
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS translation_completed_at TIMESTAMP;
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS operation_started_at TIMESTAMP;
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMP;
+      `;
+      
+      await this.pool.query(addStageTimestampColumnsSQL);
+      
+      // Add batch_id columns if they don't exist (batch imports and their per-batch concurrency cap)
+      const addBatchIdColumnsSQL = `
+        ALTER TABLE videos ADD COLUMN IF NOT EXISTS batch_id VARCHAR(255);
+        ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS batch_id VARCHAR(255);
+      `;
+      
+      await this.pool.query(addBatchIdColumnsSQL);
+      
+      // Add priority column if it doesn't exist (expedited jobs are leased ahead of normal ones)
+      const addJobPriorityColumnSQL = `
+        ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+      `;
+      
+      await this.pool.query(addJobPriorityColumnSQL);
+      
+      // Enable trigram matching for prompt search (Korean text is not handled by built-in full-text configs)
+      try {
+        await this.pool.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+        await this.pool.query(`
+          CREATE INDEX IF NOT EXISTS idx_videos_korean_prompt_trgm ON videos USING GIN (korean_prompt gin_trgm_ops);
+          CREATE INDEX IF NOT EXISTS idx_videos_english_prompt_trgm ON videos USING GIN (english_prompt gin_trgm_ops);
+        `);
+      } catch (error) {
+        // 확장을 만들 권한이 없어도 검색은 인덱스 없이 동작
+        Logger.warn('Failed to enable pg_trgm, prompt search will run without trigram indexes', {
+          error: error instanceof Error ? error.message : error
+        });
+      }
+      
       // Create indexes for better query performance
       const createIndexSQL = `
         CREATE INDEX IF NOT EXISTS idx_videos_created_at ON videos(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_videos_feed_cursor ON videos(created_at DESC, id ASC);
         CREATE INDEX IF NOT EXISTS idx_videos_status ON videos(status);
+        CREATE INDEX IF NOT EXISTS idx_videos_user_email ON videos(user_email, created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_videos_english_prompt_fts ON videos USING GIN (to_tsvector('english', COALESCE(english_prompt, '')));
+        CREATE INDEX IF NOT EXISTS idx_videos_model ON videos((generation_config->>'videoGenerationModel'));
+        CREATE INDEX IF NOT EXISTS idx_videos_parent_video_id ON videos(parent_video_id);
+        CREATE INDEX IF NOT EXISTS idx_videos_generation_group_id ON videos(generation_group_id);
+        CREATE INDEX IF NOT EXISTS idx_videos_batch_id ON videos(batch_id) WHERE batch_id IS NOT NULL;
         CREATE INDEX IF NOT EXISTS idx_admin_settings_key ON admin_settings(key);
+        CREATE INDEX IF NOT EXISTS idx_video_jobs_runnable ON video_jobs(status, next_run_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_video_jobs_active_video ON video_jobs(video_id) WHERE status IN ('queued', 'running');
+        CREATE INDEX IF NOT EXISTS idx_video_jobs_running_batch ON video_jobs(batch_id) WHERE status = 'running';
+        CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+        CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
+        CREATE INDEX IF NOT EXISTS idx_prompt_templates_owner_email ON prompt_templates(owner_email);
+        CREATE INDEX IF NOT EXISTS idx_generation_costs_created_at ON generation_costs(created_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_costs_video ON generation_costs(video_id) WHERE kind = 'video';
+        CREATE INDEX IF NOT EXISTS idx_generation_usage_created_at ON generation_usage(created_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_usage_reserved ON generation_usage(video_id) WHERE generations > 0;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_generation_usage_released ON generation_usage(video_id) WHERE generations < 0;
       `;
       
       await this.pool.query(createIndexSQL);
       
+      // Backfill the usage ledger from existing videos once, when it is still empty
+      const backfillGenerationUsageSQL = `
+        INSERT INTO generation_usage (video_id, user_email, generations, created_at)
+        SELECT id, user_email, COALESCE((generation_config->>'numberOfVideos')::int, 1), created_at
+        FROM videos
+        WHERE generation_config IS NOT NULL
+          AND (generation_group_id IS NULL OR generation_group_id = id)
+          AND NOT EXISTS (SELECT 1 FROM generation_usage)
+      `;
+      
+      await this.pool.query(backfillGenerationUsageSQL);
+      
       // Initialize default admin settings if they don't exist
       await this.initializeDefaultAdminSettings();
       
@@ -176,8 +634,11 @@ class VideoDatabase {
       INSERT INTO videos (
         id, korean_prompt, english_prompt, user_email, status, video_url, 
         thumbnail_url, gcs_uri, duration, resolution, error_message, 
-        created_at, completed_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        created_at, completed_at, source_image_url, last_frame_image_url,
+        parent_video_id, generation_group_id, generation_config,
+        translation_started_at, translation_completed_at, operation_started_at, processing_started_at,
+        batch_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23)
       RETURNING *
     `;
     
@@ -197,11 +658,22 @@ class VideoDatabase {
         video.resolution || null,
         video.error_message || null,
         createdAt,
-        video.completed_at || null
+        video.completed_at || null,
+        video.source_image_url || null,
+        video.last_frame_image_url || null,
+        video.parent_video_id || null,
+        video.generation_group_id || null,
+        video.generation_config || null,
+        video.translation_started_at || null,
+        video.translation_completed_at || null,
+        video.operation_started_at || null,
+        video.processing_started_at || null,
+        video.batch_id || null
       ]);
       
       const record = result.rows[0] as VideoRecord;
       Logger.step('Database - Video record inserted', { id: record.id });
+      await this.notifyVideoChanges([record]);
       return record;
     } catch (error) {
       Logger.error('Database - Failed to insert video record', { 
@@ -227,6 +699,7 @@ class VideoDatabase {
       if (result.rows.length > 0) {
         const record = result.rows[0] as VideoRecord;
         Logger.step('Database - Video record updated', { id, fields });
+        await this.notifyVideoChanges([record]);
         return record;
       } else {
         Logger.warn('Database - No video record found to update', { id });
@@ -241,6 +714,66 @@ class VideoDatabase {
     }
   }
 
+  // Update a video only while it is still in progress; returns null once it was cancelled, failed or completed
+  async updateActiveVideo(id: string, updates: Partial<Omit<VideoRecord, 'id' | 'created_at'>>): Promise<VideoRecord | null> {
+    const fields = Object.keys(updates).filter(key => updates[key as keyof typeof updates] !== undefined);
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const updateSQL = `
+      UPDATE videos SET ${setClause}
+      WHERE id = $1 AND status NOT IN ('cancelled', 'error', 'completed')
+      RETURNING *
+    `;
+    
+    try {
+      const values = [id, ...fields.map(field => updates[field as keyof typeof updates])];
+      const result = await this.pool.query(updateSQL, values);
+      
+      if (result.rows.length > 0) {
+        const record = result.rows[0] as VideoRecord;
+        Logger.step('Database - Active video record updated', { id, fields });
+        await this.notifyVideoChanges([record]);
+        return record;
+      } else {
+        Logger.debug('Database - Video no longer in progress, not updated', { id, fields });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to update active video record', { 
+        id, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Claim a pending video of the given user for generation (pending → queued); returns null if it is not theirs or already started
+  async claimPendingVideo(id: string, userEmail: string): Promise<VideoRecord | null> {
+    const claimSQL = `
+      UPDATE videos SET status = 'queued'
+      WHERE id = $1 AND user_email = $2 AND status = 'pending'
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(claimSQL, [id, userEmail]);
+
+      if (result.rows.length > 0) {
+        Logger.step('Database - Pending video claimed for generation', { id });
+        await this.notifyVideoChanges(result.rows);
+        return result.rows[0] as VideoRecord;
+      } else {
+        Logger.debug('Database - Video not found, not owned or no longer pending', { id });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to claim pending video', {
+        id,
+        error: error instanceof Error ? error.message : error
+      });
+      throw error;
+    }
+  }
+
   // Get single video record
   async getVideo(id: string): Promise<VideoRecord | null> {
     const selectSQL = 'SELECT * FROM videos WHERE id = $1';
@@ -269,7 +802,7 @@ class VideoDatabase {
   async getVideos(limit: number = 50, offset: number = 0): Promise<VideoRecord[]> {
     const selectSQL = `
       SELECT * FROM videos 
-      ORDER BY created_at DESC 
+      ORDER BY created_at DESC, id ASC 
       LIMIT $1 OFFSET $2
     `;
     
@@ -292,24 +825,95 @@ class VideoDatabase {
     }
   }
 
-  // Get all video records with pagination and total count
-  async getVideosWithCount(limit: number = 50, offset: number = 0): Promise<{
+  // Build a WHERE clause for list filters, appending values to params
+  private buildVideoFilterClause(filters: VideoListFilters, params: unknown[]): string {
+    const conditions: string[] = [];
+    
+    if (filters.userEmail) {
+      params.push(filters.userEmail);
+      conditions.push(`user_email = $${params.length}`);
+    }
+    
+    if (filters.q) {
+      // Substring match on both prompts (trigram indexes), plus stemmed English full-text match
+      const escaped = filters.q.replace(/[\\%_]/g, match => `\\${match}`);
+      params.push(`%${escaped}%`);
+      const likeParam = `$${params.length}`;
+      params.push(filters.q);
+      const textParam = `$${params.length}`;
+      conditions.push(`(
+        korean_prompt ILIKE ${likeParam}
+        OR english_prompt ILIKE ${likeParam}
+        OR to_tsvector('english', COALESCE(english_prompt, '')) @@ plainto_tsquery('english', ${textParam})
+      )`);
+    }
+    
+    if (filters.statuses && filters.statuses.length > 0) {
+      params.push(filters.statuses);
+      conditions.push(`status = ANY($${params.length})`);
+    }
+    
+    if (filters.createdFrom) {
+      params.push(filters.createdFrom);
+      conditions.push(`created_at >= $${params.length}`);
+    }
+    
+    if (filters.createdTo) {
+      params.push(filters.createdTo);
+      conditions.push(`created_at < $${params.length}`);
+    }
+    
+    if (filters.model) {
+      params.push(filters.model);
+      conditions.push(`generation_config->>'videoGenerationModel' = $${params.length}`);
+    }
+    
+    if (filters.resolution) {
+      params.push(filters.resolution);
+      conditions.push(`resolution = $${params.length}`);
+    }
+    
+    if (filters.durationSeconds !== undefined) {
+      params.push(filters.durationSeconds);
+      conditions.push(`duration = $${params.length}`);
+    }
+    
+    if (filters.hasAudio !== undefined) {
+      // Records created before generation_config existed count as silent
+      params.push(filters.hasAudio);
+      conditions.push(`COALESCE((generation_config->>'generateAudio')::boolean, false) = $${params.length}`);
+    }
+    
+    if (filters.batchId) {
+      params.push(filters.batchId);
+      conditions.push(`batch_id = $${params.length}`);
+    }
+    
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  // Get video records with pagination and total count, optionally filtered
+  async getVideosWithCount(limit: number = 50, offset: number = 0, filters: VideoListFilters = {}): Promise<{
     videos: VideoRecord[];
     totalCount: number;
     hasMore: boolean;
   }> {
+    const filterParams: unknown[] = [];
+    const whereClause = this.buildVideoFilterClause(filters, filterParams);
+    
     const selectSQL = `
       SELECT * FROM videos 
-      ORDER BY created_at DESC 
-      LIMIT $1 OFFSET $2
+      ${whereClause}
+      ORDER BY created_at DESC, id ASC 
+      LIMIT $${filterParams.length + 1} OFFSET $${filterParams.length + 2}
     `;
     
-    const countSQL = `SELECT COUNT(*) as total FROM videos`;
+    const countSQL = `SELECT COUNT(*) as total FROM videos ${whereClause}`;
     
     try {
       const [videosResult, countResult] = await Promise.all([
-        this.pool.query(selectSQL, [limit, offset]),
-        this.pool.query(countSQL)
+        this.pool.query(selectSQL, [...filterParams, limit, offset]),
+        this.pool.query(countSQL, filterParams)
       ]);
       
       const records = videosResult.rows as VideoRecord[];
@@ -321,7 +925,8 @@ class VideoDatabase {
         totalCount,
         limit, 
         offset,
-        hasMore
+        hasMore,
+        filters
       });
       
       return {
@@ -337,105 +942,395 @@ class VideoDatabase {
     }
   }
 
-  // Get videos by their IDs
-  async getVideosByIds(ids: string[]): Promise<VideoRecord[]> {
-    if (ids.length === 0) {
-      return [];
+  // Get the next page of video records after a keyset cursor, optionally filtered
+  // Rows inserted above the cursor never shift later pages, unlike LIMIT/OFFSET
+  async getVideosAfterCursor(limit: number = 50, cursor: VideoCursor | null = null, filters: VideoListFilters = {}): Promise<{
+    videos: VideoRecord[];
+    nextCursor: VideoCursor | null;
+    hasMore: boolean;
+  }> {
+    const params: unknown[] = [];
+    let whereClause = this.buildVideoFilterClause(filters, params);
+    
+    if (cursor) {
+      params.push(cursor.createdAt);
+      const createdAtParam = `$${params.length}::timestamp`;
+      params.push(cursor.id);
+      const idParam = `$${params.length}`;
+      const cursorCondition = `(created_at < ${createdAtParam} OR (created_at = ${createdAtParam} AND id > ${idParam}))`;
+      whereClause = whereClause ? `${whereClause} AND ${cursorCondition}` : `WHERE ${cursorCondition}`;
     }
     
+    // Fetch one extra row to know whether another page exists
+    params.push(limit + 1);
     const selectSQL = `
-      SELECT * FROM videos 
-      WHERE id = ANY($1::varchar[])
-      ORDER BY created_at DESC
+      SELECT *, created_at::text AS cursor_created_at FROM videos 
+      ${whereClause}
+      ORDER BY created_at DESC, id ASC 
+      LIMIT $${params.length}
     `;
     
     try {
-      const result = await this.pool.query(selectSQL, [ids]);
-      const records = result.rows as VideoRecord[];
+      const result = await this.pool.query(selectSQL, params);
+      const rows = result.rows.slice(0, limit);
+      const hasMore = result.rows.length > limit;
+      const lastRow = rows[rows.length - 1];
+      const nextCursor = hasMore && lastRow ? { createdAt: lastRow.cursor_created_at, id: lastRow.id } : null;
+      const videos = rows.map(row => {
+        const video = { ...row };
+        delete video.cursor_created_at;
+        return video as VideoRecord;
+      });
       
-      Logger.debug('Database - Video records retrieved by IDs', { 
-        count: records.length,
-        requested: ids.length 
+      Logger.debug('Database - Video records after cursor retrieved', { 
+        count: videos.length, 
+        limit, 
+        cursor,
+        hasMore,
+        filters
       });
       
-      return records;
+      return { videos, nextCursor, hasMore };
     } catch (error) {
-      Logger.error('Database - Failed to get video records by IDs', { 
+      Logger.error('Database - Failed to get video records after cursor', { 
         error: error instanceof Error ? error.message : error 
       });
       throw error;
     }
   }
 
-  // Get videos by status
-  async getVideosByStatus(status: VideoRecord['status']): Promise<VideoRecord[]> {
-    const selectSQL = `
-      SELECT * FROM videos 
-      WHERE status = $1 
-      ORDER BY created_at DESC
-    `;
+  // Count video records matching the list filters
+  async countVideos(filters: VideoListFilters = {}): Promise<number> {
+    const params: unknown[] = [];
+    const whereClause = this.buildVideoFilterClause(filters, params);
     
     try {
-      const result = await this.pool.query(selectSQL, [status]);
-      const records = result.rows as VideoRecord[];
-      
-      Logger.debug('Database - Video records by status retrieved', { 
-        status, 
-        count: records.length 
-      });
-      
-      return records;
+      const result = await this.pool.query(`SELECT COUNT(*) as total FROM videos ${whereClause}`, params);
+      return parseInt(result.rows[0].total);
     } catch (error) {
-      Logger.error('Database - Failed to get video records by status', { 
-        status, 
+      Logger.error('Database - Failed to count video records', { 
         error: error instanceof Error ? error.message : error 
       });
       throw error;
     }
   }
 
-  // Delete single video record
-  async deleteVideo(id: string): Promise<boolean> {
-    const deleteSQL = 'DELETE FROM videos WHERE id = $1';
+  // Median time spent in each stage by recently completed videos, per video generation model
+  // Extra samples of a group share their parent's stages, so only group parents are counted
+  async getStageDurations(sampleSize: number = 200): Promise<VideoStageDurations[]> {
+    const selectSQL = `
+      WITH recent AS (
+        SELECT * FROM videos
+        WHERE status = 'completed'
+          AND generation_config IS NOT NULL
+          AND (generation_group_id IS NULL OR generation_group_id = id)
+        ORDER BY completed_at DESC NULLS LAST
+        LIMIT $1
+      )
+      SELECT
+        generation_config->>'videoGenerationModel' AS model,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (COALESCE(translation_started_at, operation_started_at) - created_at))) AS pending_seconds,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (translation_completed_at - translation_started_at))) AS translating_seconds,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (processing_started_at - COALESCE(operation_started_at, translation_completed_at)))) AS generating_seconds,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (completed_at - processing_started_at))) AS processing_seconds,
+        COUNT(processing_started_at)::int AS sample_count
+      FROM recent
+      GROUP BY generation_config->>'videoGenerationModel'
+    `;
     
     try {
-      const result = await this.pool.query(deleteSQL, [id]);
-      const success = (result.rowCount ?? 0) > 0;
-      
-      if (success) {
-        Logger.step('Database - Video record deleted', { id });
-      } else {
-        Logger.warn('Database - No video record found to delete', { id });
-      }
+      const result = await this.pool.query(selectSQL, [sampleSize]);
+      const durations = result.rows as VideoStageDurations[];
       
-      return success;
+      Logger.debug('Database - Stage durations retrieved', { models: durations.length });
+      return durations;
     } catch (error) {
-      Logger.error('Database - Failed to delete video record', { 
-        id, 
+      Logger.error('Database - Failed to get stage durations', { 
         error: error instanceof Error ? error.message : error 
       });
       throw error;
     }
   }
 
-  // Delete multiple video records by their IDs
-  async deleteVideos(ids: string[]): Promise<number> {
-    if (ids.length === 0) {
-      return 0;
+  // Most recent batch imports with per-status prompt counts (all users when userEmail is omitted)
+  async getVideoBatches(userEmail?: string, limit: number = 20): Promise<VideoBatchSummary[]> {
+    const params: unknown[] = [limit];
+    let userCondition = '';
+    if (userEmail) {
+      params.push(userEmail);
+      userCondition = `AND user_email = $${params.length}`;
     }
-    
-    const deleteSQL = 'DELETE FROM videos WHERE id = ANY($1::varchar[])';
+    const selectSQL = `
+      SELECT
+        batch_id,
+        MIN(user_email) AS user_email,
+        COUNT(*)::int AS total,
+        COUNT(*) FILTER (WHERE status IN ('pending', 'queued'))::int AS pending,
+        COUNT(*) FILTER (WHERE status IN ('translating', 'generating', 'processing'))::int AS in_progress,
+        COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+        COUNT(*) FILTER (WHERE status = 'error')::int AS failed,
+        COUNT(*) FILTER (WHERE status = 'cancelled')::int AS cancelled,
+        MIN(created_at) AS created_at,
+        MAX(completed_at) AS last_completed_at
+      FROM videos
+      WHERE batch_id IS NOT NULL
+        AND (generation_group_id IS NULL OR generation_group_id = id)
+        ${userCondition}
+      GROUP BY batch_id
+      ORDER BY MIN(created_at) DESC
+      LIMIT $1
+    `;
     
     try {
-      const result = await this.pool.query(deleteSQL, [ids]);
-      const deletedCount = result.rowCount ?? 0;
-      
-      Logger.step('Database - Multiple video records deleted', { 
-        count: deletedCount, 
-        requested: ids.length 
-      });
+      const result = await this.pool.query(selectSQL, params);
+      const batches = result.rows as VideoBatchSummary[];
       
-      return deletedCount;
+      Logger.debug('Database - Video batches retrieved', { count: batches.length, userEmail });
+      return batches;
+    } catch (error) {
+      Logger.error('Database - Failed to get video batches', { 
+        userEmail,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Get everyone who has created videos, with their video counts
+  async getVideoCreators(): Promise<VideoCreator[]> {
+    const selectSQL = `
+      SELECT user_email, COUNT(*)::int AS video_count FROM videos
+      GROUP BY user_email
+      ORDER BY user_email ASC
+    `;
+    
+    try {
+      const result = await this.pool.query(selectSQL);
+      const creators = result.rows as VideoCreator[];
+      
+      Logger.debug('Database - Video creators retrieved', { count: creators.length });
+      return creators;
+    } catch (error) {
+      Logger.error('Database - Failed to get video creators', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Get videos by their IDs
+  async getVideosByIds(ids: string[], includeGroupMembers: boolean = false): Promise<VideoRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    
+    // includeGroupMembers: 같은 생성 그룹에 속한 다른 샘플 비디오도 함께 조회
+    const selectSQL = `
+      SELECT * FROM videos 
+      WHERE id = ANY($1::varchar[])
+      ${includeGroupMembers ? 'OR generation_group_id = ANY($1::varchar[])' : ''}
+      ORDER BY created_at DESC, id ASC
+    `;
+    
+    try {
+      const result = await this.pool.query(selectSQL, [ids]);
+      const records = result.rows as VideoRecord[];
+      
+      Logger.debug('Database - Video records retrieved by IDs', { 
+        count: records.length,
+        requested: ids.length 
+      });
+      
+      return records;
+    } catch (error) {
+      Logger.error('Database - Failed to get video records by IDs', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Get videos by status
+  async getVideosByStatus(status: VideoRecord['status']): Promise<VideoRecord[]> {
+    const selectSQL = `
+      SELECT * FROM videos 
+      WHERE status = $1 
+      ORDER BY created_at DESC
+    `;
+    
+    try {
+      const result = await this.pool.query(selectSQL, [status]);
+      const records = result.rows as VideoRecord[];
+      
+      Logger.debug('Database - Video records by status retrieved', { 
+        status, 
+        count: records.length 
+      });
+      
+      return records;
+    } catch (error) {
+      Logger.error('Database - Failed to get video records by status', { 
+        status, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Get sample videos of a generation group that still need processing
+  async getPendingGroupSamples(groupId: string): Promise<VideoRecord[]> {
+    const selectSQL = `
+      SELECT * FROM videos
+      WHERE generation_group_id = $1 AND id <> $1 AND status = 'processing'
+      ORDER BY id ASC
+    `;
+
+    try {
+      const result = await this.pool.query(selectSQL, [groupId]);
+      return result.rows as VideoRecord[];
+    } catch (error) {
+      Logger.error('Database - Failed to get pending group samples', {
+        groupId,
+        error: error instanceof Error ? error.message : error
+      });
+      throw error;
+    }
+  }
+
+  // Move a video from generating to processing; returns null if another worker already did
+  async claimVideoForProcessing(id: string, gcsUri: string): Promise<VideoRecord | null> {
+    const claimSQL = `
+      UPDATE videos SET status = 'processing', gcs_uri = $2, processing_started_at = $3
+      WHERE id = $1 AND status = 'generating'
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.pool.query(claimSQL, [id, gcsUri, new Date().toISOString()]);
+      
+      if (result.rows.length > 0) {
+        Logger.step('Database - Video claimed for processing', { id });
+        await this.notifyVideoChanges(result.rows);
+        return result.rows[0] as VideoRecord;
+      } else {
+        Logger.debug('Database - Video already claimed or not generating', { id });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to claim video for processing', { 
+        id, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Take over a video left in 'processing' by an earlier attempt; only succeeds if nobody re-claimed it since it was read
+  async reclaimVideoForProcessing(id: string, previousStartedAt: VideoRecord['processing_started_at']): Promise<VideoRecord | null> {
+    const reclaimSQL = `
+      UPDATE videos SET processing_started_at = $3
+      WHERE id = $1 AND status = 'processing'
+        AND processing_started_at IS NOT DISTINCT FROM $2
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.pool.query(reclaimSQL, [id, previousStartedAt ?? null, new Date().toISOString()]);
+      
+      if (result.rows.length > 0) {
+        Logger.step('Database - Video reclaimed for processing', { id });
+        return result.rows[0] as VideoRecord;
+      } else {
+        Logger.debug('Database - Video already reclaimed or no longer processing', { id });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to reclaim video for processing', { 
+        id, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Get generating videos with a known operation and no queued or running job
+  // Jobs with an expired lease are left to the worker that re-leases them, so an operation is never handled twice.
+  async getUnattendedGeneratingVideos(): Promise<VideoRecord[]> {
+    const selectSQL = `
+      SELECT * FROM videos
+      WHERE status = 'generating'
+        AND operation_name IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM video_jobs
+          WHERE video_jobs.video_id = videos.id
+            AND video_jobs.status IN ('queued', 'running')
+        )
+      ORDER BY created_at ASC
+    `;
+    
+    try {
+      const result = await this.pool.query(selectSQL);
+      const records = result.rows as VideoRecord[];
+      
+      Logger.debug('Database - Unattended generating videos retrieved', { count: records.length });
+      return records;
+    } catch (error) {
+      Logger.error('Database - Failed to get unattended generating videos', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Delete single video record
+  async deleteVideo(id: string): Promise<boolean> {
+    // 한도를 쓰지 않은 생성은 삭제 후에도 사용량에 포함되지 않도록 함께 해제
+    const deleteSQL = `
+      WITH released AS (${RELEASE_REFUNDABLE_USAGE_SQL})
+      DELETE FROM videos WHERE id = ANY($1::varchar[])
+    `;
+    
+    try {
+      const result = await this.pool.query(deleteSQL, [[id]]);
+      const success = (result.rowCount ?? 0) > 0;
+      
+      if (success) {
+        Logger.step('Database - Video record deleted', { id });
+      } else {
+        Logger.warn('Database - No video record found to delete', { id });
+      }
+      
+      return success;
+    } catch (error) {
+      Logger.error('Database - Failed to delete video record', { 
+        id, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Delete multiple video records by their IDs
+  async deleteVideos(ids: string[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    
+    const deleteSQL = `
+      WITH released AS (${RELEASE_REFUNDABLE_USAGE_SQL})
+      DELETE FROM videos WHERE id = ANY($1::varchar[])
+    `;
+    
+    try {
+      const result = await this.pool.query(deleteSQL, [ids]);
+      const deletedCount = result.rowCount ?? 0;
+      
+      Logger.step('Database - Multiple video records deleted', { 
+        count: deletedCount, 
+        requested: ids.length 
+      });
+      
+      return deletedCount;
     } catch (error) {
       Logger.error('Database - Failed to delete multiple video records', {
         error: error instanceof Error ? error.message : error
@@ -446,7 +1341,7 @@ class VideoDatabase {
 
   // Clear all video records
   async clearAllVideos(): Promise<number> {
-    const deleteSQL = 'TRUNCATE TABLE videos RESTART IDENTITY';
+    const deleteSQL = 'TRUNCATE TABLE videos RESTART IDENTITY CASCADE';
     
     try {
       const result = await this.pool.query(deleteSQL);
@@ -462,13 +1357,27 @@ class VideoDatabase {
     }
   }
 
-  // Get database statistics
-  async getStats(): Promise<{ totalVideos: number; completedVideos: number; errorVideos: number }> {
+  // Get database statistics: totals and the number of videos in each in-progress status
+  async getStats(): Promise<{
+    totalVideos: number;
+    completedVideos: number;
+    errorVideos: number;
+    pendingVideos: number;
+    queuedVideos: number;
+    translatingVideos: number;
+    generatingVideos: number;
+    processingVideos: number;
+  }> {
     const statsSQL = `
       SELECT 
-        COUNT(*) as total_videos,
-        COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_videos,
-        COUNT(CASE WHEN status = 'error' THEN 1 END) as error_videos
+        COUNT(*)::int AS total_videos,
+        COUNT(*) FILTER (WHERE status = 'completed')::int AS completed_videos,
+        COUNT(*) FILTER (WHERE status = 'error')::int AS error_videos,
+        COUNT(*) FILTER (WHERE status = 'pending')::int AS pending_videos,
+        COUNT(*) FILTER (WHERE status = 'queued')::int AS queued_videos,
+        COUNT(*) FILTER (WHERE status = 'translating')::int AS translating_videos,
+        COUNT(*) FILTER (WHERE status = 'generating')::int AS generating_videos,
+        COUNT(*) FILTER (WHERE status = 'processing')::int AS processing_videos
       FROM videos
     `;
     
@@ -477,9 +1386,14 @@ class VideoDatabase {
       const stats = result.rows[0];
       
       return {
-        totalVideos: parseInt(stats.total_videos),
-        completedVideos: parseInt(stats.completed_videos),
-        errorVideos: parseInt(stats.error_videos)
+        totalVideos: stats.total_videos,
+        completedVideos: stats.completed_videos,
+        errorVideos: stats.error_videos,
+        pendingVideos: stats.pending_videos,
+        queuedVideos: stats.queued_videos,
+        translatingVideos: stats.translating_videos,
+        generatingVideos: stats.generating_videos,
+        processingVideos: stats.processing_videos
       };
     } catch (error) {
       Logger.error('Database - Failed to get stats', { 
@@ -489,6 +1403,86 @@ class VideoDatabase {
     }
   }
 
+  // Outcome trends, per-model median generation time (created to completed) and error categories
+  // for videos created between from (inclusive) and to (exclusive), ISO strings compared as UTC like created_at.
+  // Error messages are matched against the category patterns (case-insensitive regex) in order.
+  async getVideoAnalytics(from: string, to: string, errorCategories: readonly { key: string; pattern: string }[]): Promise<VideoAnalyticsRows> {
+    const outcomeColumns = `
+      COUNT(*)::int AS total,
+      COUNT(*) FILTER (WHERE status = 'completed')::int AS completed,
+      COUNT(*) FILTER (WHERE status = 'error')::int AS failed,
+      COUNT(*) FILTER (WHERE status = 'cancelled')::int AS cancelled
+    `;
+    const rangeCondition = `
+      created_at >= $1 AND created_at < $2
+      AND (generation_group_id IS NULL OR generation_group_id = id)
+    `;
+    
+    const summarySQL = `SELECT ${outcomeColumns} FROM videos WHERE ${rangeCondition}`;
+    const dailySQL = `
+      SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS day, ${outcomeColumns}
+      FROM videos
+      WHERE ${rangeCondition}
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `;
+    const modelsSQL = `
+      SELECT
+        COALESCE(generation_config->>'videoGenerationModel', 'unknown') AS model,
+        ${outcomeColumns},
+        (percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM completed_at - created_at))
+          FILTER (WHERE status = 'completed' AND completed_at IS NOT NULL))::float8 AS median_generation_seconds
+      FROM videos
+      WHERE ${rangeCondition}
+      GROUP BY 1
+      ORDER BY total DESC
+    `;
+    
+    const errorParams: unknown[] = [from, to];
+    const categoryCases = errorCategories.map(category => {
+      errorParams.push(category.pattern);
+      const patternParam = `$${errorParams.length}`;
+      errorParams.push(category.key);
+      return `WHEN error_message ~* ${patternParam} THEN $${errorParams.length}::text`;
+    }).join('\n          ');
+    const errorsSQL = `
+      SELECT
+        CASE
+          ${categoryCases}
+          ELSE 'other'
+        END AS category,
+        COUNT(*)::int AS count
+      FROM videos
+      WHERE ${rangeCondition} AND status = 'error'
+      GROUP BY 1
+      ORDER BY count DESC
+    `;
+    
+    try {
+      const [summary, daily, models, errors] = await Promise.all([
+        this.pool.query(summarySQL, [from, to]),
+        this.pool.query(dailySQL, [from, to]),
+        this.pool.query(modelsSQL, [from, to]),
+        this.pool.query(errorsSQL, errorParams)
+      ]);
+      
+      Logger.debug('Database - Video analytics retrieved', { from, to, days: daily.rows.length });
+      return {
+        summary: summary.rows[0],
+        daily: daily.rows,
+        models: models.rows,
+        error_categories: errors.rows
+      } as VideoAnalyticsRows;
+    } catch (error) {
+      Logger.error('Database - Failed to get video analytics', { 
+        from,
+        to,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
   // Admin Settings Management
   async getAdminSetting(key: string): Promise<AdminSetting | null> {
     const selectSQL = 'SELECT * FROM admin_settings WHERE key = $1';
@@ -610,42 +1604,1117 @@ class VideoDatabase {
     }
   }
 
-  // Close database connection
-  async close(): Promise<void> {
-    await this.pool.end();
-    Logger.info('Database connection closed');
+  // Generation Quota Management
+  // Quota limits live in admin_settings; a missing or empty value means unlimited
+  async getGenerationQuotaLimits(): Promise<GenerationQuotaLimits> {
+    const parseLimit = async (field: keyof GenerationQuotaLimits): Promise<number | null> => {
+      const setting = await this.getAdminSetting(GENERATION_QUOTA_SETTINGS[field].key);
+      const value = parseInt(setting?.value ?? '');
+      return isNaN(value) ? null : value;
+    };
+    
+    const [userDaily, userMonthly, globalMonthly] = await Promise.all([
+      parseLimit('userDaily'),
+      parseLimit('userMonthly'),
+      parseLimit('globalMonthly')
+    ]);
+    
+    return { userDaily, userMonthly, globalMonthly };
   }
-}
-
-// Singleton instance
-let dbInstance: VideoDatabase | null = null;
-let initializationError: Error | null = null;
 
-export async function getDatabase(): Promise<VideoDatabase> {
-  if (initializationError) {
-    throw initializationError;
+  async setGenerationQuotaLimits(limits: GenerationQuotaLimits): Promise<void> {
+    try {
+      for (const field of Object.keys(GENERATION_QUOTA_SETTINGS) as (keyof GenerationQuotaLimits)[]) {
+        const { key, description } = GENERATION_QUOTA_SETTINGS[field];
+        await this.setAdminSetting(key, limits[field]?.toString() ?? '', description);
+      }
+      Logger.step('Database - Generation quota limits updated', { ...limits });
+    } catch (error) {
+      Logger.error('Database - Failed to set generation quota limits', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
   }
-  
-  if (!dbInstance) {
+
+  // Count generations since the start of the day and month (ISO strings, compared as UTC like created_at)
+  async getGenerationUsage(userEmail: string, dayStart: string, monthStart: string): Promise<GenerationUsage> {
     try {
-      dbInstance = new VideoDatabase();
+      const result = await this.pool.query(GENERATION_USAGE_SQL, [userEmail, dayStart, monthStart, []]);
+      return result.rows[0] as GenerationUsage;
     } catch (error) {
-      initializationError = error instanceof Error ? error : new Error('Unknown database initialization error');
-      Logger.error('Database initialization failed in getDatabase', {
-        error: initializationError.message,
-        stack: initializationError.stack
+      Logger.error('Database - Failed to get generation usage', { 
+        userEmail,
+        error: error instanceof Error ? error.message : error 
       });
-      throw initializationError;
+      throw error;
     }
   }
-  return dbInstance;
-}
 
-// Export utility functions
-export async function updateVideoRecord(id: string, updates: Partial<Omit<VideoRecord, 'id' | 'created_at'>>): Promise<VideoRecord | null> {
-  const db = await getDatabase();
-  return db.updateVideo(id, updates);
-}
+  // Record generations in the usage ledger only if they fit every limit; check and insert run under the quota locks
+  // so parallel submissions cannot both see the same remaining count. Reserving a video again with the same count is a no-op;
+  // with a different count nothing is recorded and conflict is set.
+  async reserveGenerationUsage(
+    userEmail: string,
+    reservations: { video_id: string; generations: number }[],
+    dayStart: string,
+    monthStart: string,
+    limits: GenerationQuotaLimits
+  ): Promise<{ reserved: boolean; conflict: boolean; usage: GenerationUsage }> {
+    const conflictSQL = `
+      SELECT ledger.video_id FROM generation_usage ledger
+      JOIN UNNEST($1::varchar[], $2::int[]) AS reservation(video_id, generations)
+        ON reservation.video_id = ledger.video_id
+      WHERE ledger.generations > 0 AND ledger.generations <> reservation.generations
+    `;
+    const insertSQL = `
+      INSERT INTO generation_usage (video_id, user_email, generations, created_at)
+      SELECT video_id, $1, generations, $4
+      FROM UNNEST($2::varchar[], $3::int[]) AS reservation(video_id, generations)
+      ON CONFLICT (video_id) WHERE generations > 0 DO NOTHING
+    `;
+    const videoIds = reservations.map(reservation => reservation.video_id);
+    const requested = reservations.reduce((total, reservation) => total + reservation.generations, 0);
+    // 전체 예산이 있으면 모든 사용자의 예약을, 없으면 같은 사용자의 예약만 직렬화
+    const locks = limits.globalMonthly !== null
+      ? [GENERATION_QUOTA_LOCK, getUserQuotaLock(userEmail)]
+      : [getUserQuotaLock(userEmail)];
+    
+    try {
+      const result = await this.withAdvisoryLocks(locks, async client => {
+        const usageResult = await client.query(GENERATION_USAGE_SQL, [userEmail, dayStart, monthStart, videoIds]);
+        const usage = usageResult.rows[0] as GenerationUsage;
+        const conflictResult = await client.query(conflictSQL, [
+          videoIds,
+          reservations.map(reservation => reservation.generations)
+        ]);
+        if (conflictResult.rows.length > 0) {
+          Logger.warn('Database - Generation usage already reserved with a different count', {
+            userEmail,
+            videoIds: conflictResult.rows.map(row => row.video_id)
+          });
+          return { reserved: false, conflict: true, usage };
+        }
+        
+        const fits = ([
+          [usage.user_daily, limits.userDaily],
+          [usage.user_monthly, limits.userMonthly],
+          [usage.global_monthly, limits.globalMonthly]
+        ] as const).every(([used, limit]) => limit === null || used + requested <= limit);
+        
+        if (fits) {
+          await client.query(insertSQL, [
+            userEmail,
+            videoIds,
+            reservations.map(reservation => reservation.generations),
+            new Date().toISOString()
+          ]);
+        }
+        return { reserved: fits, conflict: false, usage };
+      });
+      
+      if (result.reserved) {
+        Logger.step('Database - Generation usage reserved', { userEmail, videoIds, requested });
+      }
+      return result;
+    } catch (error) {
+      Logger.error('Database - Failed to reserve generation usage', { 
+        userEmail,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Release reservations whose videos were never created (e.g. a batch that failed part way)
+  async releaseGenerationUsage(videoIds: string[]): Promise<void> {
+    const releaseSQL = `
+      INSERT INTO generation_usage (video_id, user_email, generations, created_at)
+      SELECT video_id, user_email, -generations, created_at
+      FROM generation_usage
+      WHERE video_id = ANY($1::varchar[]) AND generations > 0
+      ON CONFLICT (video_id) WHERE generations < 0 DO NOTHING
+    `;
+    
+    try {
+      await this.pool.query(releaseSQL, [videoIds]);
+      Logger.step('Database - Generation usage released', { videoIds });
+    } catch (error) {
+      Logger.error('Database - Failed to release generation usage', { 
+        videoIds,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Generation Cost Tracking
+  // A Veo generation is recorded once per video, even when a retried job or the reconciler finalizes it again
+  async recordGenerationCost(cost: Omit<GenerationCostRecord, 'id' | 'created_at'>): Promise<void> {
+    const insertSQL = `
+      INSERT INTO generation_costs (
+        kind, video_id, user_email, model, input_tokens, output_tokens,
+        video_seconds, generate_audio, estimated_cost_usd, created_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (video_id) WHERE kind = 'video' DO NOTHING
+    `;
+    
+    try {
+      await this.pool.query(insertSQL, [
+        cost.kind,
+        cost.video_id || null,
+        cost.user_email || null,
+        cost.model,
+        cost.input_tokens ?? null,
+        cost.output_tokens ?? null,
+        cost.video_seconds ?? null,
+        cost.generate_audio ?? null,
+        cost.estimated_cost_usd,
+        new Date().toISOString()
+      ]);
+      Logger.debug('Database - Generation cost recorded', { kind: cost.kind, videoId: cost.video_id, cost: cost.estimated_cost_usd });
+    } catch (error) {
+      Logger.error('Database - Failed to record generation cost', { 
+        kind: cost.kind,
+        videoId: cost.video_id,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Estimated spend between from (inclusive) and to (exclusive), ISO strings compared as UTC like created_at
+  async getGenerationCostBreakdown(from: string, to: string): Promise<GenerationCostBreakdown> {
+    const dailySQL = `
+      SELECT
+        to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS day,
+        COALESCE(SUM(estimated_cost_usd) FILTER (WHERE kind = 'video'), 0)::float8 AS video_cost_usd,
+        COALESCE(SUM(estimated_cost_usd) FILTER (WHERE kind = 'translation'), 0)::float8 AS translation_cost_usd
+      FROM generation_costs
+      WHERE created_at >= $1 AND created_at < $2
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `;
+    const usersSQL = `
+      SELECT
+        COALESCE(user_email, 'unknown') AS user_email,
+        SUM(estimated_cost_usd)::float8 AS cost_usd,
+        COUNT(*) FILTER (WHERE kind = 'video')::int AS video_count,
+        COUNT(*) FILTER (WHERE kind = 'translation')::int AS translation_count
+      FROM generation_costs
+      WHERE created_at >= $1 AND created_at < $2
+      GROUP BY 1
+      ORDER BY cost_usd DESC
+    `;
+    const modelsSQL = `
+      SELECT model, kind, SUM(estimated_cost_usd)::float8 AS cost_usd, COUNT(*)::int AS call_count
+      FROM generation_costs
+      WHERE created_at >= $1 AND created_at < $2
+      GROUP BY model, kind
+      ORDER BY cost_usd DESC
+    `;
+    
+    try {
+      const [daily, users, models] = await Promise.all([
+        this.pool.query(dailySQL, [from, to]),
+        this.pool.query(usersSQL, [from, to]),
+        this.pool.query(modelsSQL, [from, to])
+      ]);
+      
+      Logger.debug('Database - Generation cost breakdown retrieved', { from, to, days: daily.rows.length });
+      return {
+        daily: daily.rows,
+        users: users.rows,
+        models: models.rows
+      } as GenerationCostBreakdown;
+    } catch (error) {
+      Logger.error('Database - Failed to get generation cost breakdown', { 
+        from,
+        to,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Video Job Queue Management
+  async enqueueVideoJob(videoId: string, payload: VideoJobPayload, maxAttempts: number, batchId?: string): Promise<VideoJobRecord | null> {
+    const insertSQL = `
+      INSERT INTO video_jobs (video_id, status, payload, max_attempts, batch_id, next_run_at, created_at, updated_at)
+      VALUES ($1, 'queued', $2, $3, $4, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (video_id) WHERE status IN ('queued', 'running') DO NOTHING
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.pool.query(insertSQL, [videoId, JSON.stringify(payload), maxAttempts, batchId || null]);
+      
+      if (result.rows.length > 0) {
+        const job = result.rows[0] as VideoJobRecord;
+        Logger.step('Database - Video job enqueued', { jobId: job.id, videoId });
+        
+        // 워커가 이미 가져가 다음 단계로 넘어간 경우는 덮어쓰지 않음
+        const queued = await this.pool.query(
+          `UPDATE videos SET status = 'queued' WHERE id = $1 AND status = 'pending' RETURNING id, status`,
+          [videoId]
+        );
+        await this.notifyVideoChanges(queued.rows);
+        return job;
+      } else {
+        Logger.warn('Database - Active video job already exists', { videoId });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to enqueue video job', { 
+        videoId, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Lease the next runnable job (queued and due, or running with an expired lease), in queue order (see videoJobQueueOrder)
+  // Queued batch jobs wait while their batch already has batchConcurrency jobs running.
+  // Translated jobs also wait for a free Veo slot, globally and for their model; untranslated jobs are leased to translate first
+  // and take their slot with claimVeoSlot. Leasing runs under the scheduler lock, so concurrent workers cannot exceed the caps.
+  async leaseNextVideoJob(
+    workerId: string,
+    leaseMs: number,
+    batchConcurrency: number,
+    veoLimits: VeoConcurrencyLimits,
+    priorityAgingMs: number
+  ): Promise<VideoJobRecord | null> {
+    const leaseSQL = `
+      WITH active_veo AS (${ACTIVE_VEO_OPERATIONS_SQL})
+      UPDATE video_jobs SET
+        status = 'running',
+        attempts = attempts + 1,
+        locked_by = $1,
+        locked_until = CURRENT_TIMESTAMP + ($2::integer * INTERVAL '1 millisecond'),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT candidate.id FROM video_jobs candidate
+        JOIN videos ON videos.id = candidate.video_id
+        WHERE (
+            candidate.status = 'queued' AND candidate.next_run_at <= CURRENT_TIMESTAMP
+            AND (candidate.batch_id IS NULL OR (
+              SELECT COUNT(*) FROM video_jobs running
+              WHERE running.batch_id = candidate.batch_id
+                AND running.status = 'running'
+                AND running.locked_until >= CURRENT_TIMESTAMP
+            ) < $3)
+            AND (
+              COALESCE(videos.english_prompt, '') = ''
+              OR videos.status = 'generating'
+              OR (
+                (SELECT COUNT(*) FROM active_veo) < $4
+                AND (
+                  SELECT COUNT(*) FROM active_veo
+                  WHERE active_veo.model = videos.generation_config->>'videoGenerationModel'
+                ) < COALESCE(($5::jsonb ->> (videos.generation_config->>'videoGenerationModel'))::int, $4)
+              )
+            )
+          )
+           OR (candidate.status = 'running' AND candidate.locked_until < CURRENT_TIMESTAMP)
+        ORDER BY ${videoJobQueueOrder('candidate', '$6::integer')}
+        FOR UPDATE OF candidate SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.withAdvisoryLocks([VIDEO_SCHEDULER_LOCK], client => client.query(leaseSQL, [
+        workerId,
+        leaseMs,
+        batchConcurrency,
+        veoLimits.global,
+        JSON.stringify(veoLimits.perModel),
+        priorityAgingMs
+      ]));
+      
+      if (result.rows.length > 0) {
+        const job = result.rows[0] as VideoJobRecord;
+        Logger.step('Database - Video job leased', { 
+          jobId: job.id, 
+          videoId: job.video_id, 
+          attempts: job.attempts,
+          workerId 
+        });
+        return job;
+      }
+      return null;
+    } catch (error) {
+      Logger.error('Database - Failed to lease video job', { 
+        workerId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Move a translated video to 'generating' if a Veo slot is free, globally and for its model (a video already generating keeps its slot)
+  // Without a free slot the video goes back to 'queued' with its translation saved; 'inactive' once it was cancelled, failed or completed.
+  async claimVeoSlot(
+    videoId: string,
+    veoLimits: VeoConcurrencyLimits,
+    translation: Pick<VideoRecord, 'english_prompt' | 'translation_completed_at'>
+  ): Promise<'claimed' | 'busy' | 'inactive'> {
+    const claimSQL = `
+      WITH active_veo AS (${ACTIVE_VEO_OPERATIONS_SQL})
+      UPDATE videos SET
+        status = 'generating',
+        english_prompt = $4,
+        translation_completed_at = COALESCE($5, translation_completed_at)
+      WHERE id = $1
+        AND status NOT IN ('cancelled', 'error', 'completed')
+        AND (
+          status = 'generating'
+          OR (
+            (SELECT COUNT(*) FROM active_veo) < $2
+            AND (
+              SELECT COUNT(*) FROM active_veo
+              WHERE active_veo.model = videos.generation_config->>'videoGenerationModel'
+            ) < COALESCE(($3::jsonb ->> (videos.generation_config->>'videoGenerationModel'))::int, $2)
+          )
+        )
+      RETURNING *
+    `;
+    const requeueSQL = `
+      UPDATE videos SET
+        status = 'queued',
+        english_prompt = $2,
+        translation_completed_at = COALESCE($3, translation_completed_at)
+      WHERE id = $1 AND status NOT IN ('cancelled', 'error', 'completed', 'generating')
+      RETURNING *
+    `;
+    
+    try {
+      const { claimed, requeued } = await this.withAdvisoryLocks([VIDEO_SCHEDULER_LOCK], async client => {
+        const claim = await client.query(claimSQL, [
+          videoId,
+          veoLimits.global,
+          JSON.stringify(veoLimits.perModel),
+          translation.english_prompt,
+          translation.translation_completed_at ?? null
+        ]);
+        if (claim.rows.length > 0) {
+          return { claimed: claim.rows as VideoRecord[], requeued: [] };
+        }
+        const requeue = await client.query(requeueSQL, [
+          videoId,
+          translation.english_prompt,
+          translation.translation_completed_at ?? null
+        ]);
+        return { claimed: [], requeued: requeue.rows as VideoRecord[] };
+      });
+      
+      await this.notifyVideoChanges([...claimed, ...requeued]);
+      if (claimed.length > 0) {
+        Logger.step('Database - Veo slot claimed', { videoId });
+        return 'claimed';
+      }
+      if (requeued.length > 0) {
+        Logger.step('Database - No free Veo slot, video queued again', { videoId });
+        return 'busy';
+      }
+      return 'inactive';
+    } catch (error) {
+      Logger.error('Database - Failed to claim Veo slot', { 
+        videoId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Put a job that is waiting for a Veo slot back in the queue without using up an attempt or its place in line
+  async deferVideoJob(jobId: number, workerId: string): Promise<boolean> {
+    const deferSQL = `
+      UPDATE video_jobs SET
+        status = 'queued',
+        attempts = GREATEST(attempts - 1, 0),
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `;
+    
+    try {
+      const result = await this.pool.query(deferSQL, [jobId, workerId]);
+      const deferred = (result.rowCount ?? 0) > 0;
+      if (deferred) {
+        Logger.step('Database - Video job deferred until a Veo slot is free', { jobId });
+      }
+      return deferred;
+    } catch (error) {
+      Logger.error('Database - Failed to defer video job', { 
+        jobId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Queued videos in the order the scheduler will start them, with the number of Veo slots in use per model
+  async getVideoQueue(priorityAgingMs: number): Promise<{ entries: VideoQueueEntry[]; active: { model: string; count: number }[] }> {
+    const queueSQL = `
+      SELECT
+        video_id,
+        COALESCE(payload->'config'->>'videoGenerationModel', 'unknown') AS model,
+        priority,
+        ROW_NUMBER() OVER (ORDER BY ${videoJobQueueOrder('video_jobs', '$1::integer')})::int AS position
+      FROM video_jobs
+      WHERE status = 'queued'
+      ORDER BY position ASC
+    `;
+    const activeSQL = `
+      SELECT COALESCE(model, 'unknown') AS model, COUNT(*)::int AS count
+      FROM (${ACTIVE_VEO_OPERATIONS_SQL}) active_veo
+      GROUP BY 1
+    `;
+    
+    try {
+      const [queue, active] = await Promise.all([
+        this.pool.query(queueSQL, [priorityAgingMs]),
+        this.pool.query(activeSQL)
+      ]);
+      return {
+        entries: queue.rows as VideoQueueEntry[],
+        active: active.rows
+      };
+    } catch (error) {
+      Logger.error('Database - Failed to get video queue', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Raise the priority of a video's queued job; returns null if the video has no queued job
+  async setVideoJobPriority(videoId: string, priority: number): Promise<VideoJobRecord | null> {
+    const prioritySQL = `
+      UPDATE video_jobs SET
+        priority = $2,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE video_id = $1 AND status = 'queued'
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.pool.query(prioritySQL, [videoId, priority]);
+      if (result.rows.length === 0) {
+        return null;
+      }
+      
+      const job = result.rows[0] as VideoJobRecord;
+      Logger.info('Database - Video job priority changed', { jobId: job.id, videoId, priority });
+      
+      // 대기열 순번이 바뀌므로 구독 중인 클라이언트에 알림
+      const video = await this.pool.query('SELECT id, status FROM videos WHERE id = $1', [videoId]);
+      await this.notifyVideoChanges(video.rows);
+      return job;
+    } catch (error) {
+      Logger.error('Database - Failed to set video job priority', { 
+        videoId,
+        priority,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Extend the lease of a running job; returns false if the lease was lost
+  async extendVideoJobLease(jobId: number, workerId: string, leaseMs: number): Promise<boolean> {
+    const extendSQL = `
+      UPDATE video_jobs SET
+        locked_until = CURRENT_TIMESTAMP + ($3::integer * INTERVAL '1 millisecond'),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `;
+    
+    try {
+      const result = await this.pool.query(extendSQL, [jobId, workerId, leaseMs]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      Logger.error('Database - Failed to extend video job lease', { 
+        jobId,
+        workerId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Complete, retry and fail only apply while workerId still holds the lease; they return false if it was lost
+  async completeVideoJob(jobId: number, workerId: string): Promise<boolean> {
+    const completeSQL = `
+      UPDATE video_jobs SET
+        status = 'completed',
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `;
+    
+    try {
+      const result = await this.pool.query(completeSQL, [jobId, workerId]);
+      const completed = (result.rowCount ?? 0) > 0;
+      if (completed) {
+        Logger.step('Database - Video job completed', { jobId });
+      }
+      return completed;
+    } catch (error) {
+      Logger.error('Database - Failed to complete video job', { 
+        jobId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Put a job back in the queue to run again after the given delay
+  async retryVideoJob(jobId: number, workerId: string, lastError: string, delayMs: number): Promise<boolean> {
+    const retrySQL = `
+      UPDATE video_jobs SET
+        status = 'queued',
+        last_error = $3,
+        next_run_at = CURRENT_TIMESTAMP + ($4::integer * INTERVAL '1 millisecond'),
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `;
+    
+    try {
+      const result = await this.pool.query(retrySQL, [jobId, workerId, lastError, delayMs]);
+      const retried = (result.rowCount ?? 0) > 0;
+      if (retried) {
+        Logger.step('Database - Video job scheduled for retry', { jobId, delayMs });
+      }
+      return retried;
+    } catch (error) {
+      Logger.error('Database - Failed to schedule video job retry', { 
+        jobId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async failVideoJob(jobId: number, workerId: string, lastError: string): Promise<boolean> {
+    const failSQL = `
+      UPDATE video_jobs SET
+        status = 'failed',
+        last_error = $3,
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `;
+    
+    try {
+      const result = await this.pool.query(failSQL, [jobId, workerId, lastError]);
+      const failed = (result.rowCount ?? 0) > 0;
+      if (failed) {
+        Logger.step('Database - Video job failed', { jobId });
+      }
+      return failed;
+    } catch (error) {
+      Logger.error('Database - Failed to mark video job as failed', { 
+        jobId,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Cancel an in-progress video together with its active job; returns null if it was not in progress
+  async cancelVideo(id: string): Promise<VideoRecord | null> {
+    const cancelSQL = `
+      WITH cancelled AS (
+        UPDATE videos SET status = 'cancelled'
+        WHERE id = $1 AND status IN ('pending', 'queued', 'translating', 'generating', 'processing')
+        RETURNING *
+      ), cancelled_jobs AS (
+        UPDATE video_jobs SET
+          status = 'cancelled',
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE video_id = $1
+          AND status IN ('queued', 'running')
+          AND EXISTS (SELECT 1 FROM cancelled)
+      )
+      SELECT * FROM cancelled
+    `;
+    
+    try {
+      const result = await this.pool.query(cancelSQL, [id]);
+      
+      if (result.rows.length > 0) {
+        const record = result.rows[0] as VideoRecord;
+        Logger.step('Database - Video generation cancelled', { id });
+        await this.notifyVideoChanges([record]);
+        return record;
+      } else {
+        Logger.warn('Database - No in-progress video found to cancel', { id });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to cancel video', { 
+        id, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Mark in-progress videos that have no active job as errored so they are never stuck
+  // Extra samples of a generation group have no job of their own; the group parent's active job finalizes them.
+  // Generating videos with a Veo operation are left to the operation reconciler, which can still recover their result.
+  async failOrphanedVideos(olderThanMs: number, errorMessage: string): Promise<string[]> {
+    const failSQL = `
+      UPDATE videos SET status = 'error', error_message = $2
+      WHERE status IN ('pending', 'queued', 'translating', 'generating', 'processing')
+        AND created_at < CURRENT_TIMESTAMP - ($1::integer * INTERVAL '1 millisecond')
+        AND NOT EXISTS (
+          SELECT 1 FROM video_jobs
+          WHERE video_jobs.video_id = videos.id AND video_jobs.status IN ('queued', 'running')
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM video_jobs
+          WHERE video_jobs.video_id = videos.generation_group_id
+            AND videos.generation_group_id <> videos.id
+            AND video_jobs.status IN ('queued', 'running')
+        )
+        AND NOT (status = 'generating' AND operation_name IS NOT NULL)
+      RETURNING id, status
+    `;
+    
+    try {
+      const result = await this.pool.query(failSQL, [olderThanMs, errorMessage]);
+      const ids = result.rows.map(row => row.id as string);
+      
+      if (ids.length > 0) {
+        Logger.warn('Database - Orphaned video records marked as error', { count: ids.length, ids });
+        await this.notifyVideoChanges(result.rows);
+      }
+      
+      return ids;
+    } catch (error) {
+      Logger.error('Database - Failed to fail orphaned video records', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Run queries in one transaction holding the given advisory locks, taken in order (released on commit or rollback)
+  private async withAdvisoryLocks<T>(locks: string[], run: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const lock of locks) {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [lock]);
+      }
+      const result = await run(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Change Notifications
+
+  // Publish a payload on a LISTEN/NOTIFY channel; best effort, since subscribers fall back to polling
+  async notify(channel: string, payload: object): Promise<void> {
+    try {
+      await this.pool.query('SELECT pg_notify($1, $2)', [channel, JSON.stringify(payload)]);
+    } catch (error) {
+      Logger.warn('Database - Failed to publish notification', { 
+        channel,
+        error: error instanceof Error ? error.message : error 
+      });
+    }
+  }
+
+  private async notifyVideoChanges(records: Pick<VideoRecord, 'id' | 'status'>[]): Promise<void> {
+    for (const record of records) {
+      await this.notify(VIDEO_CHANGES_CHANNEL, { id: record.id, status: record.status });
+    }
+  }
+
+  // LISTEN on channels with a dedicated client; returns a function that releases it
+  // onError fires once when the connection breaks, after which the caller should listen again
+  async listen(
+    channels: string[],
+    onNotification: (channel: string, payload: string) => void,
+    onError: (error: Error) => void
+  ): Promise<() => Promise<void>> {
+    const client = await this.pool.connect();
+    let released = false;
+    
+    const release = async (error?: Error) => {
+      if (released) return;
+      released = true;
+      client.removeAllListeners('notification');
+      client.removeAllListeners('error');
+      if (!error) {
+        await client.query(`UNLISTEN *`).catch(() => undefined);
+      }
+      // Drop broken connections instead of returning them to the pool
+      client.release(error);
+    };
+    
+    client.on('notification', message => {
+      onNotification(message.channel, message.payload || '');
+    });
+    client.on('error', error => {
+      Logger.warn('Database - Notification listener connection lost', { channels, error: error.message });
+      release(error).finally(() => onError(error));
+    });
+    
+    try {
+      for (const channel of channels) {
+        // Channel names are identifiers and cannot be bound as parameters
+        await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+      }
+      Logger.info('Database - Listening for notifications', { channels });
+    } catch (error) {
+      await release(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+    
+    return () => release();
+  }
+
+  // User & Session Management
+  // New users get initialRole; existing users keep their role unless promoteToAdmin is set
+  async upsertUserByEmail(email: string, initialRole: UserRole, promoteToAdmin: boolean = false): Promise<UserRecord> {
+    const upsertSQL = `
+      INSERT INTO users (email, role, created_at, last_login_at)
+      VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ON CONFLICT (email) DO UPDATE SET
+        last_login_at = CURRENT_TIMESTAMP,
+        role = CASE WHEN $3 THEN 'admin' ELSE users.role END
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.pool.query(upsertSQL, [email, initialRole, promoteToAdmin]);
+      const user = result.rows[0] as UserRecord;
+      
+      Logger.step('Database - User signed in', { userId: user.id, email });
+      return user;
+    } catch (error) {
+      Logger.error('Database - Failed to upsert user', { 
+        email, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async getUsers(): Promise<UserRecord[]> {
+    const selectSQL = 'SELECT * FROM users ORDER BY created_at ASC';
+    
+    try {
+      const result = await this.pool.query(selectSQL);
+      const users = result.rows as UserRecord[];
+      
+      Logger.debug('Database - Users retrieved', { count: users.length });
+      return users;
+    } catch (error) {
+      Logger.error('Database - Failed to get users', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async updateUserRole(id: number, role: UserRole): Promise<UserRecord | null> {
+    const updateSQL = 'UPDATE users SET role = $2 WHERE id = $1 RETURNING *';
+    
+    try {
+      const result = await this.pool.query(updateSQL, [id, role]);
+      
+      if (result.rows.length > 0) {
+        const user = result.rows[0] as UserRecord;
+        Logger.step('Database - User role updated', { userId: id, role });
+        return user;
+      } else {
+        Logger.warn('Database - No user found to update role', { userId: String(id) });
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to update user role', { 
+        userId: String(id), 
+        role,
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async createLoginToken(tokenHash: string, email: string, ttlMs: number): Promise<void> {
+    const insertSQL = `
+      INSERT INTO login_tokens (token_hash, email, expires_at, created_at)
+      VALUES ($1, $2, CURRENT_TIMESTAMP + ($3 * INTERVAL '1 millisecond'), CURRENT_TIMESTAMP)
+    `;
+    
+    try {
+      await this.pool.query(insertSQL, [tokenHash, email, ttlMs]);
+      Logger.step('Database - Login token created', { email });
+    } catch (error) {
+      Logger.error('Database - Failed to create login token', { 
+        email, 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Mark a login token as used; returns the email only for an unused, unexpired token
+  async consumeLoginToken(tokenHash: string): Promise<string | null> {
+    const consumeSQL = `
+      UPDATE login_tokens SET used_at = CURRENT_TIMESTAMP
+      WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      RETURNING email
+    `;
+    
+    try {
+      const result = await this.pool.query(consumeSQL, [tokenHash]);
+      
+      if (result.rows.length > 0) {
+        return result.rows[0].email as string;
+      } else {
+        Logger.warn('Database - Login token is invalid, used or expired');
+        return null;
+      }
+    } catch (error) {
+      Logger.error('Database - Failed to consume login token', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async createSession(sessionHash: string, userId: number, expiresAt: Date): Promise<void> {
+    const insertSQL = `
+      INSERT INTO sessions (id, user_id, expires_at, created_at)
+      VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+    `;
+    
+    try {
+      await this.pool.query(insertSQL, [sessionHash, userId, expiresAt]);
+      Logger.step('Database - Session created', { userId });
+    } catch (error) {
+      Logger.error('Database - Failed to create session', { 
+        userId: String(userId), 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async getSessionUser(sessionHash: string): Promise<UserRecord | null> {
+    const selectSQL = `
+      SELECT users.* FROM sessions
+      JOIN users ON users.id = sessions.user_id
+      WHERE sessions.id = $1 AND sessions.expires_at > CURRENT_TIMESTAMP
+    `;
+    
+    try {
+      const result = await this.pool.query(selectSQL, [sessionHash]);
+      return result.rows.length > 0 ? result.rows[0] as UserRecord : null;
+    } catch (error) {
+      Logger.error('Database - Failed to get session user', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async deleteSession(sessionHash: string): Promise<boolean> {
+    const deleteSQL = 'DELETE FROM sessions WHERE id = $1';
+    
+    try {
+      const result = await this.pool.query(deleteSQL, [sessionHash]);
+      const deleted = (result.rowCount ?? 0) > 0;
+      
+      if (deleted) {
+        Logger.step('Database - Session deleted');
+      }
+      
+      return deleted;
+    } catch (error) {
+      Logger.error('Database - Failed to delete session', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Prompt Template Management
+
+  // Templates the user owns plus templates others have shared
+  async getPromptTemplates(userEmail: string): Promise<PromptTemplateRecord[]> {
+    const selectSQL = `
+      SELECT * FROM prompt_templates
+      WHERE owner_email = $1 OR is_shared = true
+      ORDER BY (owner_email = $1) DESC, name ASC
+    `;
+    
+    try {
+      const result = await this.pool.query(selectSQL, [userEmail]);
+      Logger.debug('Database - Prompt templates retrieved', { count: result.rows.length });
+      return result.rows as PromptTemplateRecord[];
+    } catch (error) {
+      Logger.error('Database - Failed to get prompt templates', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async getPromptTemplate(id: number): Promise<PromptTemplateRecord | null> {
+    try {
+      const result = await this.pool.query('SELECT * FROM prompt_templates WHERE id = $1', [id]);
+      return result.rows.length > 0 ? result.rows[0] as PromptTemplateRecord : null;
+    } catch (error) {
+      Logger.error('Database - Failed to get prompt template', { 
+        id: String(id),
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async createPromptTemplate(template: Pick<PromptTemplateRecord, 'name' | 'content' | 'description' | 'owner_email' | 'is_shared'>): Promise<PromptTemplateRecord> {
+    const insertSQL = `
+      INSERT INTO prompt_templates (name, content, description, owner_email, is_shared)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+    
+    try {
+      const result = await this.pool.query(insertSQL, [
+        template.name,
+        template.content,
+        template.description || null,
+        template.owner_email,
+        template.is_shared
+      ]);
+      const record = result.rows[0] as PromptTemplateRecord;
+      Logger.step('Database - Prompt template created', { id: String(record.id) });
+      return record;
+    } catch (error) {
+      Logger.error('Database - Failed to create prompt template', { 
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async updatePromptTemplate(
+    id: number,
+    updates: Partial<Pick<PromptTemplateRecord, 'name' | 'content' | 'description' | 'is_shared'>>
+  ): Promise<PromptTemplateRecord | null> {
+    const fields = Object.keys(updates).filter(key => updates[key as keyof typeof updates] !== undefined);
+    if (fields.length === 0) return this.getPromptTemplate(id);
+    
+    const setClause = fields.map((field, index) => `${field} = $${index + 2}`).join(', ');
+    const updateSQL = `UPDATE prompt_templates SET ${setClause}, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`;
+    
+    try {
+      const values = [id, ...fields.map(field => updates[field as keyof typeof updates])];
+      const result = await this.pool.query(updateSQL, values);
+      
+      if (result.rows.length > 0) {
+        Logger.step('Database - Prompt template updated', { id: String(id), fields });
+        return result.rows[0] as PromptTemplateRecord;
+      }
+      return null;
+    } catch (error) {
+      Logger.error('Database - Failed to update prompt template', { 
+        id: String(id),
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  async deletePromptTemplate(id: number): Promise<boolean> {
+    try {
+      const result = await this.pool.query('DELETE FROM prompt_templates WHERE id = $1', [id]);
+      const deleted = (result.rowCount ?? 0) > 0;
+      
+      if (deleted) {
+        Logger.step('Database - Prompt template deleted', { id: String(id) });
+      }
+      
+      return deleted;
+    } catch (error) {
+      Logger.error('Database - Failed to delete prompt template', { 
+        id: String(id),
+        error: error instanceof Error ? error.message : error 
+      });
+      throw error;
+    }
+  }
+
+  // Close database connection
+  async close(): Promise<void> {
+    await this.pool.end();
+    Logger.info('Database connection closed');
+  }
+}
+
+// Singleton instance
+let dbInstance: VideoDatabase | null = null;
+let initializationError: Error | null = null;
+
+export async function getDatabase(): Promise<VideoDatabase> {
+  if (initializationError) {
+    throw initializationError;
+  }
+  
+  if (!dbInstance) {
+    try {
+      dbInstance = new VideoDatabase();
+    } catch (error) {
+      initializationError = error instanceof Error ? error : new Error('Unknown database initialization error');
+      Logger.error('Database initialization failed in getDatabase', {
+        error: initializationError.message,
+        stack: initializationError.stack
+      });
+      throw initializationError;
+    }
+  }
+  return dbInstance;
+}
+
+// Export utility functions
+export async function updateVideoRecord(id: string, updates: Partial<Omit<VideoRecord, 'id' | 'created_at'>>): Promise<VideoRecord | null> {
+  const db = await getDatabase();
+  return db.updateVideo(id, updates);
+}
+
+export async function updateActiveVideoRecord(id: string, updates: Partial<Omit<VideoRecord, 'id' | 'created_at'>>): Promise<VideoRecord | null> {
+  const db = await getDatabase();
+  return db.updateActiveVideo(id, updates);
+}
+
+export async function claimPendingVideoRecord(id: string, userEmail: string): Promise<VideoRecord | null> {
+  const db = await getDatabase();
+  return db.claimPendingVideo(id, userEmail);
+}
 
 export async function getVideoRecord(id: string): Promise<VideoRecord | null> {
   const db = await getDatabase();
@@ -662,13 +2731,22 @@ export async function getVideoRecords(limit?: number, offset?: number): Promise<
   return db.getVideos(limit, offset);
 }
 
-export async function getVideoRecordsWithCount(limit?: number, offset?: number): Promise<{
+export async function getVideoRecordsWithCount(limit?: number, offset?: number, filters?: VideoListFilters): Promise<{
   videos: VideoRecord[];
   totalCount: number;
   hasMore: boolean;
 }> {
   const db = await getDatabase();
-  return db.getVideosWithCount(limit, offset);
+  return db.getVideosWithCount(limit, offset, filters);
+}
+
+export async function getVideoRecordsAfterCursor(limit?: number, cursor?: VideoCursor | null, filters?: VideoListFilters): Promise<{
+  videos: VideoRecord[];
+  nextCursor: VideoCursor | null;
+  hasMore: boolean;
+}> {
+  const db = await getDatabase();
+  return db.getVideosAfterCursor(limit, cursor, filters);
 }
 
 export async function deleteVideoRecord(id: string): Promise<boolean> {
@@ -681,6 +2759,12 @@ export async function clearAllVideoRecords(): Promise<number> {
   return db.clearAllVideos();
 }
 
+// Video Job Queue utility functions
+export async function enqueueVideoJob(videoId: string, payload: VideoJobPayload, maxAttempts: number, batchId?: string): Promise<VideoJobRecord | null> {
+  const db = await getDatabase();
+  return db.enqueueVideoJob(videoId, payload, maxAttempts, batchId);
+}
+
 // Admin Settings utility functions
 export async function getAdminSetting(key: string): Promise<AdminSetting | null> {
   const db = await getDatabase();
@@ -0,0 +1,67 @@
+import { getDatabase, VideoRecord } from './database';
+import { Logger } from './logger';
+import { COST_CONFIG } from './constants';
+import type { TranslationResult } from './ai';
+
+// 생성된 샘플 수 × 길이(초) × 모델별 초당 가격 (오디오 생성 시 별도 가격)
+export function estimateVideoCost(model: string, durationSeconds: number, generateAudio: boolean, sampleCount: number): number {
+  const price = COST_CONFIG.VIDEO_PRICE_PER_SECOND[model] || COST_CONFIG.DEFAULT_VIDEO_PRICE_PER_SECOND;
+  return durationSeconds * sampleCount * (generateAudio ? price.videoWithAudio : price.video);
+}
+
+export function estimateTranslationCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = COST_CONFIG.TRANSLATION_PRICE_PER_MILLION_TOKENS[model] || COST_CONFIG.DEFAULT_TRANSLATION_PRICE_PER_MILLION_TOKENS;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 번역 호출 비용 기록
+ * 비용 기록 실패가 생성 작업을 실패시키지 않도록 오류는 로그만 남김
+ */
+export async function recordTranslationCost(
+  model: string,
+  translation: TranslationResult,
+  userEmail?: string,
+  videoId?: string
+): Promise<void> {
+  try {
+    const db = await getDatabase();
+    await db.recordGenerationCost({
+      kind: 'translation',
+      video_id: videoId,
+      user_email: userEmail,
+      model,
+      input_tokens: translation.inputTokens,
+      output_tokens: translation.outputTokens,
+      estimated_cost_usd: estimateTranslationCost(model, translation.inputTokens, translation.outputTokens)
+    });
+  } catch (error) {
+    Logger.warn('Failed to record translation cost', { model, videoId, error: error instanceof Error ? error.message : error });
+  }
+}
+
+/**
+ * Veo 생성 비용 기록 (비디오마다 한 번, 요청한 설정과 실제 생성된 샘플 수 기준)
+ */
+export async function recordVideoGenerationCost(video: VideoRecord, sampleCount: number): Promise<void> {
+  const config = video.generation_config;
+  if (!config) {
+    Logger.warn('Skipping video cost - generation config missing', { videoId: video.id });
+    return;
+  }
+
+  try {
+    const db = await getDatabase();
+    await db.recordGenerationCost({
+      kind: 'video',
+      video_id: video.id,
+      user_email: video.user_email,
+      model: config.videoGenerationModel,
+      video_seconds: config.durationSeconds * sampleCount,
+      generate_audio: config.generateAudio,
+      estimated_cost_usd: estimateVideoCost(config.videoGenerationModel, config.durationSeconds, config.generateAudio, sampleCount)
+    });
+  } catch (error) {
+    Logger.warn('Failed to record video generation cost', { videoId: video.id, error: error instanceof Error ? error.message : error });
+  }
+}
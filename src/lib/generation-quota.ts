@@ -0,0 +1,115 @@
+import { getDatabase, GenerationUsage } from './database';
+import { ApiError } from './api-utils';
+import { Logger } from './logger';
+import { GenerationQuota, GenerationQuotaLimits, GenerationQuotaUsage } from '@/types';
+
+// 한도는 UTC 기준 날짜/월 단위로 초기화
+function getQuotaWindows(now: Date = new Date()) {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return {
+    dayStart,
+    monthStart,
+    nextDayStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+    nextMonthStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+const toQuotaUsage = (used: number, limit: number | null, resetsAt: Date): GenerationQuotaUsage => ({
+  used,
+  limit,
+  remaining: limit === null ? null : Math.max(limit - used, 0),
+  resetsAt: resetsAt.toISOString()
+});
+
+function toGenerationQuota(limits: GenerationQuotaLimits, usage: GenerationUsage): GenerationQuota {
+  const { nextDayStart, nextMonthStart } = getQuotaWindows();
+  const daily = toQuotaUsage(usage.user_daily, limits.userDaily, nextDayStart);
+  const monthly = toQuotaUsage(usage.user_monthly, limits.userMonthly, nextMonthStart);
+  const global = toQuotaUsage(usage.global_monthly, limits.globalMonthly, nextMonthStart);
+  const remainingValues = [daily, monthly, global]
+    .map(quota => quota.remaining)
+    .filter((remaining): remaining is number => remaining !== null);
+
+  return {
+    daily,
+    monthly,
+    global,
+    remaining: remainingValues.length > 0 ? Math.min(...remainingValues) : null
+  };
+}
+
+// 요청한 개수가 남은 한도를 넘으면 429 ApiError
+function throwIfQuotaExceeded(userEmail: string, quota: GenerationQuota, requested: number): void {
+  const exceeded = ([
+    ['Daily generation quota', quota.daily],
+    ['Monthly generation quota', quota.monthly],
+    ['Monthly generation budget for all users', quota.global]
+  ] as const).find(([, usage]) => usage.remaining !== null && usage.remaining < requested);
+
+  if (exceeded) {
+    const [label, usage] = exceeded;
+    Logger.warn('Generation quota exceeded', { userEmail, requested, label, used: usage.used, limit: usage.limit });
+    throw new ApiError(
+      `${label} exceeded: ${usage.used} of ${usage.limit} videos used, ${requested} requested. Resets at ${usage.resetsAt}`,
+      429,
+      'QUOTA_EXCEEDED'
+    );
+  }
+}
+
+/**
+ * 사용자의 오늘/이번 달 사용량과 전체 월 예산 사용량
+ */
+export async function getGenerationQuota(userEmail: string): Promise<GenerationQuota> {
+  const db = await getDatabase();
+  const { dayStart, monthStart } = getQuotaWindows();
+
+  const [limits, usage] = await Promise.all([
+    db.getGenerationQuotaLimits(),
+    db.getGenerationUsage(userEmail, dayStart.toISOString(), monthStart.toISOString())
+  ]);
+
+  return toGenerationQuota(limits, usage);
+}
+
+/**
+ * 요청한 개수만큼 생성할 수 있는지 미리 확인 (사용량은 기록하지 않음, 한도를 넘으면 429 ApiError)
+ */
+export async function assertGenerationQuota(userEmail: string, requested: number): Promise<void> {
+  throwIfQuotaExceeded(userEmail, await getGenerationQuota(userEmail), requested);
+}
+
+/**
+ * 비디오별 생성 개수를 한도 안에서만 사용량 원장에 기록 (확인과 기록이 한 트랜잭션이라 동시에 요청해도 한도를 넘지 않음)
+ * 한도를 넘으면 아무것도 기록하지 않고 429 ApiError, 같은 비디오를 다른 개수로 다시 예약하면 409 ApiError
+ */
+export async function reserveGenerationQuota(
+  userEmail: string,
+  reservations: { videoId: string; generations: number }[]
+): Promise<void> {
+  const db = await getDatabase();
+  const { dayStart, monthStart } = getQuotaWindows();
+  const limits = await db.getGenerationQuotaLimits();
+
+  const { reserved, conflict, usage } = await db.reserveGenerationUsage(
+    userEmail,
+    reservations.map(reservation => ({ video_id: reservation.videoId, generations: reservation.generations })),
+    dayStart.toISOString(),
+    monthStart.toISOString(),
+    limits
+  );
+
+  if (conflict) {
+    throw new ApiError(
+      'Generation quota was already reserved for this video with a different count',
+      409,
+      'QUOTA_RESERVATION_CONFLICT'
+    );
+  }
+
+  if (!reserved) {
+    const requested = reservations.reduce((total, reservation) => total + reservation.generations, 0);
+    throwIfQuotaExceeded(userEmail, toGenerationQuota(limits, usage), requested);
+  }
+}
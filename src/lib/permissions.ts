@@ -0,0 +1,18 @@
+// 역할 기반 권한 판단 (서버 라우트와 클라이언트 UI에서 공통으로 사용)
+import { AuthUser, UserRole } from '@/types';
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, creator: 1, admin: 2 };
+
+export function hasRole(user: AuthUser | null | undefined, role: UserRole): boolean {
+  return !!user && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+// Admins manage every video; creators manage only the videos they own
+export function canManageVideo(user: AuthUser | null | undefined, ownerEmail: string): boolean {
+  return hasRole(user, 'admin') || (hasRole(user, 'creator') && ownerEmail === user?.email);
+}
+
+// Prompt templates follow the same rule: admins manage all, creators only their own
+export function canManagePromptTemplate(user: AuthUser | null | undefined, ownerEmail: string): boolean {
+  return canManageVideo(user, ownerEmail);
+}
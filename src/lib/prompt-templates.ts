@@ -0,0 +1,67 @@
+// 프롬프트 템플릿 변수 처리 (서버 라우트와 클라이언트 폼에서 공통으로 사용)
+import { PromptTemplate } from '@/types';
+import type { PromptTemplateRecord } from './database';
+
+export const PROMPT_TEMPLATE_LIMITS = {
+  NAME_MAX_LENGTH: 100,
+  DESCRIPTION_MAX_LENGTH: 500,
+  CONTENT_MAX_LENGTH: 2000
+} as const;
+
+// {{변수 이름}} 형식의 자리표시자
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export function toPromptTemplate(record: PromptTemplateRecord): PromptTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    content: record.content,
+    description: record.description || undefined,
+    ownerEmail: record.owner_email,
+    isShared: record.is_shared,
+    createdAt: new Date(record.created_at).toISOString(),
+    updatedAt: new Date(record.updated_at).toISOString()
+  };
+}
+
+// 템플릿에 등장하는 변수 이름 (중복 제외, 등장 순서)
+export function extractTemplateVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(TEMPLATE_VARIABLE_PATTERN), match => match[1]);
+  return Array.from(new Set(names));
+}
+
+// 변수 값을 채운 프롬프트 (값이 없는 변수는 그대로 남김)
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(TEMPLATE_VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+}
+
+// 직접 입력한 프롬프트 뒤에 템플릿 내용을 붙여 최종 한국어 프롬프트 구성
+export function composePrompt(prompt: string, templateText: string): string {
+  return [prompt.trim(), templateText.trim()].filter(Boolean).join(', ');
+}
+
+// 템플릿 입력값 검증 (partial이면 전달된 필드만 검사), 문제가 없으면 null
+export function validatePromptTemplateInput(
+  input: { name?: unknown; content?: unknown; description?: unknown; isShared?: unknown },
+  partial: boolean = false
+): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'Template name is required';
+    if (input.name.trim().length > PROMPT_TEMPLATE_LIMITS.NAME_MAX_LENGTH) return `Template name must be at most ${PROMPT_TEMPLATE_LIMITS.NAME_MAX_LENGTH} characters`;
+  }
+  if (!partial || input.content !== undefined) {
+    if (typeof input.content !== 'string' || !input.content.trim()) return 'Template content is required';
+    if (input.content.length > PROMPT_TEMPLATE_LIMITS.CONTENT_MAX_LENGTH) return `Template content must be at most ${PROMPT_TEMPLATE_LIMITS.CONTENT_MAX_LENGTH} characters`;
+  }
+  if (input.description !== undefined && input.description !== null) {
+    if (typeof input.description !== 'string') return 'Template description must be a string';
+    if (input.description.length > PROMPT_TEMPLATE_LIMITS.DESCRIPTION_MAX_LENGTH) return `Template description must be at most ${PROMPT_TEMPLATE_LIMITS.DESCRIPTION_MAX_LENGTH} characters`;
+  }
+  if (input.isShared !== undefined && typeof input.isShared !== 'boolean') {
+    return 'isShared must be a boolean';
+  }
+  return null;
+}
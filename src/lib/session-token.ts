@@ -0,0 +1,77 @@
+// Signed session cookie helpers.
+// Web Crypto만 사용하므로 Edge 런타임(middleware)과 Node 런타임 양쪽에서 사용 가능
+import { AUTH_CONFIG } from './constants';
+
+const DEV_AUTH_SECRET = 'veo-dashboard-dev-secret';
+
+export interface SessionTokenPayload {
+  sessionId: string;
+  expiresAt: number;
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET environment variable is required in production');
+  }
+  return DEV_AUTH_SECRET;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function sign(value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getAuthSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(value));
+  return toHex(signature);
+}
+
+// Constant-time comparison so signatures cannot be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function signSessionToken({ sessionId, expiresAt }: SessionTokenPayload): Promise<string> {
+  const value = `${sessionId}.${expiresAt}`;
+  return `${value}.${await sign(value)}`;
+}
+
+// Verify signature and expiry only; revocation is checked against the sessions table in API routes
+export async function verifySessionToken(token: string | undefined): Promise<SessionTokenPayload | null> {
+  if (!token) {
+    return null;
+  }
+
+  const [sessionId, expiresAtText, signature] = token.split('.');
+  const expiresAt = Number(expiresAtText);
+  if (!sessionId || !signature || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null;
+  }
+
+  const expected = await sign(`${sessionId}.${expiresAtText}`);
+  return safeEqual(signature, expected) ? { sessionId, expiresAt } : null;
+}
+
+export function isPublicPath(pathname: string): boolean {
+  return AUTH_CONFIG.PUBLIC_PATHS.some(path => pathname === path || pathname.startsWith(path));
+}
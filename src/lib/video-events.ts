@@ -0,0 +1,139 @@
+import { getDatabase, VideoRecord, VIDEO_CHANGES_CHANNEL } from './database';
+import { VideoSyncStatus, VIDEO_SYNC_CHANGES_CHANNEL } from './video-sync';
+import { API_CONFIG } from './constants';
+import { Logger } from './logger';
+
+export type VideoEvent =
+  | { type: 'video'; video: VideoRecord }
+  | { type: 'sync'; syncStatus: VideoSyncStatus };
+
+type VideoEventListener = (event: VideoEvent) => void;
+
+/**
+ * Postgres LISTEN/NOTIFY 알림을 SSE 구독자들에게 전달하는 허브
+ * 프로세스당 하나의 LISTEN 연결을 공유하고, 구독자가 없으면 연결을 해제
+ */
+class VideoEventHub {
+  private listeners = new Set<VideoEventListener>();
+  private stopListening: (() => Promise<void>) | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  subscribe(listener: VideoEventListener): () => void {
+    this.listeners.add(listener);
+    this.ensureListening();
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  private ensureListening(): void {
+    if (this.stopListening || this.connecting || this.reconnectTimer) return;
+
+    this.connecting = (async () => {
+      try {
+        const db = await getDatabase();
+        const stop = await db.listen(
+          [VIDEO_CHANGES_CHANNEL, VIDEO_SYNC_CHANGES_CHANNEL],
+          (channel, payload) => this.handleNotification(channel, payload),
+          () => {
+            this.stopListening = null;
+            this.scheduleReconnect();
+          }
+        );
+
+        // 연결하는 동안 구독자가 모두 떠났으면 바로 해제
+        if (this.listeners.size === 0) {
+          await stop();
+        } else {
+          this.stopListening = stop;
+        }
+      } catch (error) {
+        Logger.warn('Video Event Hub - Failed to listen for video changes', {
+          error: error instanceof Error ? error.message : error
+        });
+        this.scheduleReconnect();
+      } finally {
+        this.connecting = null;
+      }
+    })();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.listeners.size === 0 || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.listeners.size > 0) {
+        this.ensureListening();
+      }
+    }, API_CONFIG.EVENT_STREAM.RECONNECT_DELAY);
+  }
+
+  private stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.stopListening) {
+      const stop = this.stopListening;
+      this.stopListening = null;
+      stop().catch(error => {
+        Logger.warn('Video Event Hub - Failed to stop listening', {
+          error: error instanceof Error ? error.message : error
+        });
+      });
+    }
+  }
+
+  private async handleNotification(channel: string, payload: string): Promise<void> {
+    try {
+      if (channel === VIDEO_SYNC_CHANGES_CHANNEL) {
+        this.emit({ type: 'sync', syncStatus: JSON.parse(payload) as VideoSyncStatus });
+        return;
+      }
+
+      // 알림에는 id와 상태만 담기므로 (8000바이트 제한) 전체 레코드는 한 번만 조회해 모든 구독자에게 전달
+      const { id } = JSON.parse(payload) as { id: string };
+      const db = await getDatabase();
+      const video = await db.getVideo(id);
+      if (video) {
+        this.emit({ type: 'video', video });
+      }
+    } catch (error) {
+      Logger.warn('Video Event Hub - Failed to handle notification', {
+        channel,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  private emit(event: VideoEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        Logger.warn('Video Event Hub - Listener failed', {
+          error: error instanceof Error ? error.message : error
+        });
+      }
+    }
+  }
+}
+
+// 싱글톤 인스턴스
+let videoEventHubInstance: VideoEventHub | null = null;
+
+/**
+ * 비디오 이벤트 허브 인스턴스 반환
+ */
+export function getVideoEventHub(): VideoEventHub {
+  if (!videoEventHubInstance) {
+    videoEventHubInstance = new VideoEventHub();
+  }
+  return videoEventHubInstance;
+}
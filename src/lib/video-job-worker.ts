@@ -0,0 +1,633 @@
+import os from 'os';
+import { GeneratedVideo } from '@google/genai';
+import { GenerationCancelledError, TranslationService, VideoGenerationInputs, VideoGenerationService } from './ai';
+import { getDatabase, VeoConcurrencyLimits, VideoJobPayload, VideoJobRecord, VideoRecord, enqueueVideoJob } from './database';
+import { downloadAndProcessVideo, readUploadedImage } from './video-server-utils';
+import { syncNewVideo } from './video-sync';
+import { recordTranslationCost, recordVideoGenerationCost } from './generation-cost';
+import { validateResolution } from './video-utils';
+import { API_CONFIG } from './constants';
+import { Logger } from './logger';
+
+const JOB_CONFIG = API_CONFIG.JOB_QUEUE;
+
+/**
+ * 번역은 끝났지만 빈 Veo 슬롯이 없어 작업을 대기열로 되돌려야 함
+ */
+class VeoSlotUnavailableError extends Error {
+  constructor(message: string = 'No free Veo slot') {
+    super(message);
+    this.name = 'VeoSlotUnavailableError';
+  }
+}
+
+/**
+ * 동시에 실행할 수 있는 Veo 작업 수 (전체 / 모델별)
+ * 모델별 제한은 "model=count,model=count" 형식이며, 지정하지 않은 모델은 전체 제한만 적용
+ */
+export function getVeoConcurrencyLimits(): VeoConcurrencyLimits {
+  const globalLimit = parseInt(process.env.MAX_CONCURRENT_VIDEO_GENERATIONS || '', 10);
+  const perModel: Record<string, number> = {};
+
+  for (const entry of (process.env.MAX_CONCURRENT_VIDEO_GENERATIONS_PER_MODEL || '').split(',')) {
+    const [model, count] = entry.split('=').map(part => part.trim());
+    const limit = parseInt(count || '', 10);
+    if (model && limit > 0) {
+      perModel[model] = limit;
+    }
+  }
+
+  return {
+    global: globalLimit > 0 ? globalLimit : JOB_CONFIG.MAX_CONCURRENT_VEO_OPERATIONS,
+    perModel
+  };
+}
+
+class VideoJobWorker {
+  private readonly workerId = `${os.hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private lastOrphanCheck = 0;
+  private activeJobs = new Set<number>();
+
+  /**
+   * 워커 루프 시작
+   * 재시작 후에도 DB에 남아있는 작업(대기 중이거나 임대가 만료된 작업)을 이어서 처리
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    Logger.info('Video Job Worker - Starting', {
+      workerId: this.workerId,
+      pollInterval: JOB_CONFIG.POLL_INTERVAL,
+      leaseDuration: JOB_CONFIG.LEASE_DURATION
+    });
+
+    this.pollTimer = setInterval(() => {
+      void this.tick();
+    }, JOB_CONFIG.POLL_INTERVAL);
+
+    void this.tick();
+  }
+
+  /**
+   * 새 작업이 등록되었을 때 다음 폴링 주기를 기다리지 않고 즉시 확인
+   */
+  wake(): void {
+    void this.tick();
+  }
+
+  /**
+   * 실행 가능한 작업을 임대하여 처리 시작
+   */
+  private async tick(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
+
+    try {
+      const db = await getDatabase();
+      const veoLimits = getVeoConcurrencyLimits();
+
+      while (this.activeJobs.size < JOB_CONFIG.MAX_ACTIVE_JOBS) {
+        const job = await db.leaseNextVideoJob(
+          this.workerId,
+          JOB_CONFIG.LEASE_DURATION,
+          JOB_CONFIG.MAX_ACTIVE_JOBS_PER_BATCH,
+          veoLimits,
+          JOB_CONFIG.PRIORITY_AGING_INTERVAL
+        );
+        if (!job) {
+          break;
+        }
+
+        this.activeJobs.add(job.id);
+        this.runJob(job)
+          .catch(error => {
+            Logger.error('Video Job Worker - Unhandled job error', {
+              jobId: job.id,
+              videoId: job.video_id,
+              error: error instanceof Error ? error.message : error
+            });
+          })
+          .finally(() => {
+            this.activeJobs.delete(job.id);
+          });
+      }
+
+      if (Date.now() - this.lastOrphanCheck >= JOB_CONFIG.ORPHAN_CHECK_INTERVAL) {
+        this.lastOrphanCheck = Date.now();
+        await db.failOrphanedVideos(
+          JOB_CONFIG.ORPHAN_TIMEOUT,
+          'Video generation was interrupted before it was queued'
+        );
+      }
+    } catch (error) {
+      Logger.error('Video Job Worker - Polling failed', {
+        workerId: this.workerId,
+        error: error instanceof Error ? error.message : error
+      });
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * 임대한 작업 하나를 실행하고 결과에 따라 완료/재시도/실패 처리
+   */
+  private async runJob(job: VideoJobRecord): Promise<void> {
+    const db = await getDatabase();
+    const startTime = Date.now();
+
+    // 임대가 반복해서 만료된 작업은 더 이상 시도하지 않음
+    if (job.attempts > job.max_attempts) {
+      const errorMessage = job.last_error || 'Video generation worker stopped responding';
+      if (!await db.failVideoJob(job.id, this.workerId, errorMessage)) {
+        this.logLeaseLost(job, 'fail');
+        return;
+      }
+      // 그 사이 취소되었거나 완료된 비디오는 오류로 덮어쓰지 않음
+      await db.updateActiveVideo(job.video_id, {
+        status: 'error',
+        error_message: `${errorMessage} (after ${job.max_attempts - 1} retries)`
+      });
+      return;
+    }
+
+    // 작업이 실행되는 동안 주기적으로 임대 연장
+    const heartbeat = setInterval(() => {
+      db.extendVideoJobLease(job.id, this.workerId, JOB_CONFIG.LEASE_DURATION)
+        .then(extended => {
+          if (!extended) {
+            Logger.warn('Video Job Worker - Lease lost while job was running', {
+              jobId: job.id,
+              videoId: job.video_id
+            });
+          }
+        })
+        .catch(() => {});
+    }, JOB_CONFIG.HEARTBEAT_INTERVAL);
+
+    try {
+      await processVideoGeneration(job.video_id, job.payload, job.attempts - 1);
+      if (!await db.completeVideoJob(job.id, this.workerId)) {
+        this.logLeaseLost(job, 'complete');
+        return;
+      }
+
+      Logger.info('Video Job Worker - Job completed', {
+        jobId: job.id,
+        videoId: job.video_id,
+        attempts: job.attempts,
+        totalDuration: `${Date.now() - startTime}ms`
+      });
+    } catch (error) {
+      // 슬롯이 날 때까지 시도 횟수를 쓰지 않고 대기열로 되돌림 (번역 결과는 비디오에 저장됨)
+      if (error instanceof VeoSlotUnavailableError) {
+        if (!await db.deferVideoJob(job.id, this.workerId)) {
+          this.logLeaseLost(job, 'defer');
+        }
+        return;
+      }
+
+      // 취소된 작업은 재시도하지 않음 (비디오와 작업 상태는 취소 API에서 이미 갱신됨)
+      if (error instanceof GenerationCancelledError || await isVideoCancelled(job.video_id)) {
+        Logger.info('Video Job Worker - Job stopped after cancellation', {
+          jobId: job.id,
+          videoId: job.video_id
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const retryCount = job.attempts - 1;
+
+      if (job.attempts < job.max_attempts) {
+        const delayMs = Math.pow(2, retryCount) * JOB_CONFIG.RETRY_BASE_DELAY;
+
+        Logger.warn('Video Job Worker - Job failed, retrying', {
+          jobId: job.id,
+          videoId: job.video_id,
+          error: errorMessage,
+          retryCount,
+          maxRetries: job.max_attempts - 1,
+          nextRetryIn: `${delayMs}ms`
+        });
+
+        if (!await db.retryVideoJob(job.id, this.workerId, errorMessage, delayMs)) {
+          this.logLeaseLost(job, 'retry');
+        }
+        return; // Don't mark as error yet
+      }
+
+      Logger.error('Video Job Worker - Job failed after all retries', {
+        jobId: job.id,
+        videoId: job.video_id,
+        totalDuration: `${Date.now() - startTime}ms`,
+        error: errorMessage,
+        retryCount
+      });
+
+      // 임대를 잃었으면 새로 임대한 워커가 상태를 정리하도록 비디오는 건드리지 않음
+      if (!await db.failVideoJob(job.id, this.workerId, errorMessage)) {
+        this.logLeaseLost(job, 'fail');
+        return;
+      }
+      await db.updateActiveVideo(job.video_id, {
+        status: 'error',
+        error_message: `${errorMessage} (after ${retryCount} retries)`,
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * 임대가 만료되어 다른 워커가 작업을 가져간 경우 결과를 기록하지 않음
+   */
+  private logLeaseLost(job: VideoJobRecord, action: 'complete' | 'retry' | 'defer' | 'fail'): void {
+    Logger.warn('Video Job Worker - Lease lost, job result not recorded', {
+      jobId: job.id,
+      videoId: job.video_id,
+      workerId: this.workerId,
+      action
+    });
+  }
+
+  /**
+   * 워커 루프 중지
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    Logger.info('Video Job Worker - Stopped', { workerId: this.workerId });
+  }
+}
+
+/**
+ * 비디오가 취소되었거나 삭제되었는지 확인
+ */
+async function isVideoCancelled(videoId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const video = await db.getVideo(videoId);
+  return !video || video.status === 'cancelled';
+}
+
+/**
+ * 진행 중인 비디오만 다음 단계로 변경 (취소/오류/완료 상태를 덮어써서 Veo 작업이 시작되지 않도록)
+ * 취소되었거나 삭제되었으면 GenerationCancelledError, 이미 오류/완료 상태면 false 반환
+ */
+async function advanceVideoStatus(videoId: string, updates: Partial<Omit<VideoRecord, 'id' | 'created_at'>>): Promise<boolean> {
+  const db = await getDatabase();
+  if (await db.updateActiveVideo(videoId, updates)) {
+    return true;
+  }
+
+  await stopInactiveVideo(videoId, updates.status);
+  return false;
+}
+
+/**
+ * 더 이상 진행 중이 아닌 비디오의 작업 중단 (취소되었거나 삭제되었으면 GenerationCancelledError)
+ */
+async function stopInactiveVideo(videoId: string, nextStatus?: VideoRecord['status']): Promise<void> {
+  if (await isVideoCancelled(videoId)) {
+    throw new GenerationCancelledError();
+  }
+
+  Logger.step('Video Job Worker - Video no longer in progress, stopping job', { videoId, nextStatus });
+}
+
+/**
+ * 연장할 원본 비디오를 Veo API 입력 형식으로 조회
+ */
+async function getSourceVideo(parentVideoId: string): Promise<{ uri: string; mimeType: string }> {
+  const db = await getDatabase();
+  const parent = await db.getVideo(parentVideoId);
+  if (!parent || !parent.gcs_uri) {
+    throw new Error(`Source video ${parentVideoId} is not available for extension`);
+  }
+  return { uri: parent.gcs_uri, mimeType: 'video/mp4' };
+}
+
+/**
+ * 번역 → 비디오 생성 → 다운로드/썸네일 처리까지 한 번의 시도를 실행
+ * 이전 시도가 남긴 상태(번역, 작업 이름, GCS URI)가 있으면 그 지점부터 이어서 진행
+ * 실패 시 예외를 던지며, 재시도 여부는 워커가 결정
+ */
+async function processVideoGeneration(videoId: string, payload: VideoJobPayload, retryCount: number): Promise<void> {
+  const db = await getDatabase();
+  const { koreanPrompt, config } = payload;
+
+  const video = await db.getVideo(videoId);
+  if (!video) {
+    Logger.warn('Video Job Worker - Video record no longer exists, skipping job', { videoId });
+    return;
+  }
+
+  if (video.status === 'completed' || video.status === 'cancelled' || video.status === 'error') {
+    Logger.step('Video Job Worker - Video already finished, skipping job', { videoId, status: video.status });
+    return;
+  }
+
+  Logger.step('Background video generation started', {
+    videoId,
+    outputUri: process.env.GOOGLE_CLOUD_OUTPUT_GCS_URI,
+    model: config.videoGenerationModel,
+    durationSeconds: config.durationSeconds,
+    enhancePrompt: config.enhancePrompt,
+    generateAudio: config.generateAudio,
+    hasNegativePrompt: !!config.negativePrompt,
+    resumeOperation: video.operation_name,
+    retryCount
+  });
+
+  // 이전 시도가 다운로드 단계에서 중단된 경우 바로 후처리로 진행 (다른 곳에서 먼저 이어받았으면 생략)
+  if (video.status === 'processing' && video.gcs_uri) {
+    const reclaimed = await db.reclaimVideoForProcessing(videoId, video.processing_started_at);
+    if (!reclaimed) {
+      Logger.step('Video Job Worker - Video already being processed elsewhere', { videoId });
+      return;
+    }
+    await finalizeGeneratedVideo(videoId, video.gcs_uri, config.durationSeconds);
+    await finalizeGroupSamples(videoId, config.durationSeconds);
+    return;
+  }
+
+  // 1. 번역 (이전 시도에서 이미 번역된 경우 생략)
+  let englishPrompt = video.english_prompt;
+  let translationCompletedAt: string | undefined;
+  if (!englishPrompt) {
+    const translating = await advanceVideoStatus(videoId, {
+      status: 'translating',
+      translation_started_at: new Date().toISOString()
+    });
+    if (!translating) {
+      return;
+    }
+    const translation = await TranslationService.translateKoreanToEnglish(
+      koreanPrompt,
+      config.translationModel,
+      config.translationPromptConfig
+    );
+    await recordTranslationCost(config.translationModel, translation, video.user_email, videoId);
+    englishPrompt = translation.text;
+    translationCompletedAt = new Date().toISOString();
+  }
+
+  // Veo 슬롯을 잡은 경우에만 생성 단계로 진행 (이미 생성 중이던 비디오는 자신의 슬롯을 유지)
+  const slot = await db.claimVeoSlot(videoId, getVeoConcurrencyLimits(), {
+    english_prompt: englishPrompt,
+    translation_completed_at: translationCompletedAt
+  });
+  if (slot === 'busy') {
+    throw new VeoSlotUnavailableError();
+  }
+  if (slot === 'inactive') {
+    await stopInactiveVideo(videoId, 'generating');
+    return;
+  }
+
+  // 2. 비디오 생성 (이미 시작된 Veo 작업이 있으면 재개)
+  const callbacks = {
+    onOperationStarted: async (operationName: string) => {
+      await db.updateVideo(videoId, {
+        operation_name: operationName,
+        operation_started_at: new Date().toISOString()
+      });
+    },
+    isCancelled: () => isVideoCancelled(videoId)
+  };
+
+  let videos = video.operation_name
+    ? await VideoGenerationService.resumeVideoGeneration(video.operation_name, callbacks)
+    : null;
+
+  if (!videos) {
+    // 원본 비디오가 있으면 연장, 업로드된 첫 프레임 (및 마지막 프레임) 이미지가 있으면 image-to-video로 생성
+    const inputs: VideoGenerationInputs = {};
+    if (video.parent_video_id) {
+      inputs.video = await getSourceVideo(video.parent_video_id);
+    }
+    if (config.firstFrameImage) {
+      inputs.image = await readUploadedImage(config.firstFrameImage.url, config.firstFrameImage.mimeType);
+    }
+    if (config.lastFrameImage) {
+      inputs.lastFrame = await readUploadedImage(config.lastFrameImage.url, config.lastFrameImage.mimeType);
+    }
+
+    videos = await VideoGenerationService.generateVideo(
+      englishPrompt,
+      process.env.GOOGLE_CLOUD_OUTPUT_GCS_URI,
+      config.videoGenerationModel,
+      config.durationSeconds,
+      config.enhancePrompt,
+      config.generateAudio,
+      config.negativePrompt,
+      config.aspectRatio || '16:9',
+      config.numberOfVideos || 1,
+      config.seed,
+      inputs,
+      callbacks
+    );
+  }
+
+  if (!videos || videos.length === 0) {
+    throw new Error('No videos generated from API');
+  }
+
+  const gcsUri = videos[0]?.video?.uri;
+  if (!gcsUri) {
+    throw new Error('No video URI returned from generation API');
+  }
+
+  // 3. 다운로드 및 썸네일 생성 (재조정기가 먼저 가져간 경우 생략)
+  const claimed = await db.claimVideoForProcessing(videoId, gcsUri);
+  if (!claimed) {
+    Logger.step('Video Job Worker - Video already being processed elsewhere', { videoId });
+    return;
+  }
+
+  await finalizeGeneratedVideos(claimed, videos, config.durationSeconds);
+
+  Logger.info('Background video generation completed successfully', {
+    videoId,
+    gcsUri,
+    videoCount: videos.length,
+    retryCount
+  });
+}
+
+/**
+ * 생성된 비디오를 GCS에서 내려받아 썸네일을 만들고 완료 상태로 저장
+ */
+export async function finalizeGeneratedVideo(videoId: string, gcsUri: string, fallbackDuration?: number): Promise<void> {
+  const db = await getDatabase();
+  const result = await downloadAndProcessVideo(gcsUri, videoId);
+
+  // 다운로드 중에 취소된 경우 완료 상태로 덮어쓰지 않음
+  if (await isVideoCancelled(videoId)) {
+    Logger.step('Video Job Worker - Video cancelled during processing', { videoId });
+    return;
+  }
+
+  // 해상도 값 검증 후 저장
+  const validResolution = validateResolution(result.resolution, videoId);
+
+  if (result.resolution && !validResolution) {
+    Logger.warn('Invalid resolution from video processing, not saving to DB', {
+      videoId,
+      invalidResolution: result.resolution
+    });
+  }
+
+  await db.updateVideo(videoId, {
+    status: 'completed',
+    gcs_uri: gcsUri,
+    video_url: result.videoUrl,
+    thumbnail_url: result.thumbnailUrl,
+    duration: result.duration || fallbackDuration,
+    resolution: validResolution,
+    completed_at: new Date().toISOString(),
+  });
+
+  try {
+    await syncNewVideo(videoId, gcsUri);
+  } catch (syncError) {
+    Logger.warn('Failed to register video with sync service', {
+      videoId,
+      gcsUri,
+      error: syncError instanceof Error ? syncError.message : syncError
+    });
+  }
+
+  Logger.step('Video Job Worker - Video finalized', {
+    videoId,
+    videoUrl: result.videoUrl,
+    thumbnailUrl: result.thumbnailUrl,
+    actualDuration: result.duration,
+    resolution: result.resolution
+  });
+}
+
+/**
+ * 한 번에 여러 개가 생성된 경우 추가 샘플을 같은 생성 그룹의 비디오 레코드로 저장하고
+ * 대표 비디오와 추가 샘플을 모두 완료 처리
+ */
+export async function finalizeGeneratedVideos(
+  video: VideoRecord,
+  generatedVideos: GeneratedVideo[],
+  fallbackDuration?: number
+): Promise<void> {
+  const db = await getDatabase();
+
+  if (generatedVideos.length > 1 && !video.generation_group_id) {
+    await db.updateVideo(video.id, { generation_group_id: video.id });
+  }
+
+  // 추가 샘플 레코드 생성 (재시도 시 중복 생성하지 않도록 결정적인 ID 사용)
+  for (let index = 1; index < generatedVideos.length; index++) {
+    const sampleGcsUri = generatedVideos[index]?.video?.uri;
+    if (!sampleGcsUri) {
+      continue;
+    }
+
+    const sampleId = `${video.id}-${index + 1}`;
+    if (await db.getVideo(sampleId)) {
+      continue;
+    }
+
+    await db.insertVideo({
+      id: sampleId,
+      korean_prompt: video.korean_prompt,
+      english_prompt: video.english_prompt,
+      user_email: video.user_email,
+      status: 'processing',
+      gcs_uri: sampleGcsUri,
+      source_image_url: video.source_image_url,
+      last_frame_image_url: video.last_frame_image_url,
+      parent_video_id: video.parent_video_id,
+      generation_group_id: video.id,
+      generation_config: video.generation_config,
+      batch_id: video.batch_id,
+      created_at: video.created_at,
+      translation_started_at: video.translation_started_at,
+      translation_completed_at: video.translation_completed_at,
+      operation_started_at: video.operation_started_at,
+      processing_started_at: video.processing_started_at
+    });
+  }
+
+  // 생성 비용 기록 (재시도나 재조정기가 다시 처리해도 비디오마다 한 번만 기록됨)
+  await recordVideoGenerationCost(video, generatedVideos.length);
+
+  // 대표 비디오의 gcs_uri는 claimVideoForProcessing에서 저장됨
+  await finalizeGeneratedVideo(video.id, video.gcs_uri!, fallbackDuration);
+  await finalizeGroupSamples(video.id, fallbackDuration);
+}
+
+/**
+ * 아직 처리되지 않은 추가 샘플 비디오를 완료 처리
+ * 샘플 하나의 실패가 대표 비디오 작업을 실패시키지 않도록 개별적으로 오류 처리
+ */
+async function finalizeGroupSamples(groupId: string, fallbackDuration?: number): Promise<void> {
+  const db = await getDatabase();
+  const samples = await db.getPendingGroupSamples(groupId);
+
+  for (const sample of samples) {
+    try {
+      await finalizeGeneratedVideo(sample.id, sample.gcs_uri!, fallbackDuration);
+    } catch (error) {
+      Logger.error('Video Job Worker - Failed to finalize sample video', {
+        groupId,
+        videoId: sample.id,
+        error: error instanceof Error ? error.message : error
+      });
+      await db.updateActiveVideo(sample.id, {
+        status: 'error',
+        error_message: `Video processing failed: ${error instanceof Error ? error.message : error}`
+      });
+    }
+  }
+}
+
+// 싱글톤 인스턴스
+let videoJobWorkerInstance: VideoJobWorker | null = null;
+
+/**
+ * 비디오 작업 워커 인스턴스 반환
+ */
+export function getVideoJobWorker(): VideoJobWorker {
+  if (!videoJobWorkerInstance) {
+    videoJobWorkerInstance = new VideoJobWorker();
+  }
+  return videoJobWorkerInstance;
+}
+
+/**
+ * 서버 시작 시 호출할 워커 시작 함수
+ */
+export function startVideoJobWorker(): void {
+  getVideoJobWorker().start();
+}
+
+/**
+ * 비디오 생성 작업을 큐에 등록하고 워커를 깨움
+ * Veo 동시 실행 수 제한에 걸리면 비디오는 'queued' 상태로 등록 순서대로 대기
+ * batchId가 있으면 같은 배치의 작업은 MAX_ACTIVE_JOBS_PER_BATCH개까지만 동시에 실행
+ * 이미 진행 중인 작업이 있으면 false 반환
+ */
+export async function enqueueVideoGeneration(videoId: string, payload: VideoJobPayload, batchId?: string): Promise<boolean> {
+  const job = await enqueueVideoJob(videoId, payload, JOB_CONFIG.MAX_ATTEMPTS, batchId);
+
+  const worker = getVideoJobWorker();
+  worker.start();
+  worker.wake();
+
+  return job !== null;
+}
@@ -0,0 +1,142 @@
+import { VideoGenerationService } from './ai';
+import { getDatabase } from './database';
+import { finalizeGeneratedVideos } from './video-job-worker';
+import { API_CONFIG } from './constants';
+import { Logger } from './logger';
+
+class VideoOperationReconciler {
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private isReconciling = false;
+
+  /**
+   * 재조정 루프 시작
+   * 서버 시작 직후 한 번 실행하고 이후 주기적으로 반복
+   */
+  start(): void {
+    if (this.reconcileTimer) {
+      return;
+    }
+
+    Logger.info('Video Operation Reconciler - Starting', {
+      interval: API_CONFIG.JOB_QUEUE.OPERATION_RECONCILE_INTERVAL
+    });
+
+    this.reconcileTimer = setInterval(() => {
+      void this.reconcile();
+    }, API_CONFIG.JOB_QUEUE.OPERATION_RECONCILE_INTERVAL);
+
+    void this.reconcile();
+  }
+
+  /**
+   * 대기 중이거나 실행 중인 작업이 없는 'generating' 비디오의 Veo 작업 상태를 다시 조회하여 완료 또는 실패 처리
+   */
+  async reconcile(): Promise<void> {
+    if (this.isReconciling) {
+      return;
+    }
+    this.isReconciling = true;
+
+    try {
+      const db = await getDatabase();
+      const videos = await db.getUnattendedGeneratingVideos();
+
+      if (videos.length > 0) {
+        Logger.step('Video Operation Reconciler - Checking operations', { count: videos.length });
+      }
+
+      for (const video of videos) {
+        try {
+          const status = await VideoGenerationService.getVideoOperationStatus(video.operation_name!);
+
+          if (!status.done) {
+            continue;
+          }
+
+          if (status.error) {
+            Logger.warn('Video Operation Reconciler - Operation failed', {
+              videoId: video.id,
+              operationName: video.operation_name,
+              error: status.error
+            });
+            await db.updateActiveVideo(video.id, {
+              status: 'error',
+              error_message: status.error
+            });
+            continue;
+          }
+
+          const gcsUri = status.videos?.[0]?.video?.uri;
+          if (!gcsUri) {
+            await db.updateActiveVideo(video.id, {
+              status: 'error',
+              error_message: 'No video URI returned from generation API'
+            });
+            continue;
+          }
+
+          const claimed = await db.claimVideoForProcessing(video.id, gcsUri);
+          if (!claimed) {
+            continue;
+          }
+
+          Logger.info('Video Operation Reconciler - Recovered completed operation', {
+            videoId: video.id,
+            operationName: video.operation_name
+          });
+
+          try {
+            await finalizeGeneratedVideos(claimed, status.videos!);
+          } catch (processError) {
+            await db.updateActiveVideo(video.id, {
+              status: 'error',
+              error_message: `Video processing failed: ${processError instanceof Error ? processError.message : processError}`
+            });
+          }
+        } catch (error) {
+          Logger.error('Video Operation Reconciler - Failed to reconcile video', {
+            videoId: video.id,
+            operationName: video.operation_name,
+            error: error instanceof Error ? error.message : error
+          });
+        }
+      }
+    } catch (error) {
+      Logger.error('Video Operation Reconciler - Reconciliation failed', {
+        error: error instanceof Error ? error.message : error
+      });
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  /**
+   * 재조정 루프 중지
+   */
+  stop(): void {
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+  }
+}
+
+// 싱글톤 인스턴스
+let reconcilerInstance: VideoOperationReconciler | null = null;
+
+/**
+ * 작업 재조정기 인스턴스 반환
+ */
+export function getVideoOperationReconciler(): VideoOperationReconciler {
+  if (!reconcilerInstance) {
+    reconcilerInstance = new VideoOperationReconciler();
+  }
+  return reconcilerInstance;
+}
+
+/**
+ * 서버 시작 시 호출할 재조정기 시작 함수
+ */
+export function startVideoOperationReconciler(): void {
+  getVideoOperationReconciler().start();
+}
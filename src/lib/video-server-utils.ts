@@ -2,7 +2,9 @@ import { Storage } from '@google-cloud/storage';
 import ffmpeg from 'fluent-ffmpeg';
 import path from 'path';
 import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
 import { Logger } from './logger';
+import { UPLOAD_CONFIG } from './constants';
 
 /**
  * Initialize and verify Google Cloud Storage client
@@ -343,6 +345,17 @@ async function extractVideoMetadata(videoPath: string, videoId: string): Promise
   });
 }
 
+/**
+ * Choose thumbnail size matching the video orientation (9:16 videos get portrait thumbnails)
+ */
+function getThumbnailSize(resolution?: string): string {
+  const match = resolution?.match(/^(\d+)x(\d+)$/);
+  if (match && parseInt(match[2]) > parseInt(match[1])) {
+    return '720x1280';
+  }
+  return '1280x720';
+}
+
 /**
  * Generate thumbnail and extract metadata using FFmpeg
  */
@@ -377,6 +390,7 @@ async function generateThumbnailAndMetadata(
 
   // First, extract metadata using ffprobe
   const metadata = await extractVideoMetadata(videoPath, videoId);
+  const thumbnailSize = getThumbnailSize(metadata.resolution);
 
   // Then generate thumbnail
   return new Promise((resolve, reject) => {
@@ -431,7 +445,7 @@ async function generateThumbnailAndMetadata(
         timestamps: ['50%'],
         filename: path.basename(thumbnailPath),
         folder: path.dirname(thumbnailPath),
-        size: '1280x720'
+        size: thumbnailSize
       });
 
     // Set a timeout for FFmpeg processing
@@ -444,4 +458,41 @@ async function generateThumbnailAndMetadata(
     command.on('end', () => clearTimeout(timeout));
     command.on('error', () => clearTimeout(timeout));
   });
-} 
\ No newline at end of file
+} 
+const PUBLIC_IMAGE_DIR = path.join(process.cwd(), 'public', 'images');
+const IMAGE_URL_PATTERN = /^\/images\/([0-9a-f-]+\.(png|jpg))$/;
+
+/**
+ * Save an uploaded image to the public images directory
+ */
+export async function saveUploadedImage(data: Buffer, mimeType: string): Promise<string> {
+  const extension = UPLOAD_CONFIG.IMAGE_EXTENSIONS[mimeType];
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${mimeType}`);
+  }
+
+  await fs.mkdir(PUBLIC_IMAGE_DIR, { recursive: true });
+
+  const fileName = `${randomUUID()}.${extension}`;
+  await fs.writeFile(path.join(PUBLIC_IMAGE_DIR, fileName), data);
+
+  Logger.step('Video Utils - Uploaded image saved', { fileName, size: data.length });
+
+  return `/images/${fileName}`;
+}
+
+/**
+ * Read a previously uploaded image as base64 for the Veo API
+ */
+export async function readUploadedImage(imageUrl: string, mimeType: string): Promise<{ imageBytes: string; mimeType: string }> {
+  const match = imageUrl.match(IMAGE_URL_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid uploaded image URL: ${imageUrl}`);
+  }
+
+  const data = await fs.readFile(path.join(PUBLIC_IMAGE_DIR, match[1]));
+  return {
+    imageBytes: data.toString('base64'),
+    mimeType
+  };
+}
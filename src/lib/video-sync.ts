@@ -6,6 +6,9 @@ import { Logger } from './logger';
 import path from 'path';
 import fs from 'fs/promises';
 
+// LISTEN/NOTIFY channel carrying a VideoSyncStatus whenever a sync state changes
+export const VIDEO_SYNC_CHANGES_CHANNEL = 'video_sync_changes';
+
 export interface VideoSyncStatus {
   videoId: string;
   status: 'synced' | 'downloading' | 'error' | 'missing_gcs';
@@ -114,7 +117,7 @@ class VideoSyncService {
       }
 
     } catch (error) {
-      this.syncStatus.set(videoId, {
+      this.updateSyncStatus({
         videoId,
         status: 'error',
         error: error instanceof Error ? error.message : String(error)
@@ -134,7 +137,7 @@ class VideoSyncService {
   private async downloadVideo(videoId: string, gcsUri: string): Promise<void> {
     try {
       // 다운로드 상태로 업데이트
-      this.syncStatus.set(videoId, {
+      this.updateSyncStatus({
         videoId,
         status: 'downloading'
       });
@@ -166,7 +169,7 @@ class VideoSyncService {
       });
 
       // 성공 상태로 업데이트
-      this.syncStatus.set(videoId, {
+      this.updateSyncStatus({
         videoId,
         status: 'synced',
         localVideoPath: path.join(process.cwd(), 'public', 'videos', `${videoId}.mp4`),
@@ -180,7 +183,7 @@ class VideoSyncService {
       });
 
     } catch (error) {
-      this.syncStatus.set(videoId, {
+      this.updateSyncStatus({
         videoId,
         status: 'error',
         error: error instanceof Error ? error.message : String(error)
@@ -196,6 +199,21 @@ class VideoSyncService {
     }
   }
 
+  /**
+   * 동기화 상태 변경 저장 및 구독자(SSE)에게 알림
+   */
+  private updateSyncStatus(status: VideoSyncStatus): void {
+    this.syncStatus.set(status.videoId, status);
+    getDatabase()
+      .then(db => db.notify(VIDEO_SYNC_CHANGES_CHANNEL, status))
+      .catch(error => {
+        Logger.warn('Video Sync Service - Failed to publish sync status change', {
+          videoId: status.videoId,
+          error: error instanceof Error ? error.message : error
+        });
+      });
+  }
+
   /**
    * 필요한 디렉토리 생성
    */
@@ -260,7 +278,7 @@ class VideoSyncService {
 
     if (videoExists && thumbnailExists) {
       // 파일이 존재하면 즉시 synced 상태로 설정
-      this.syncStatus.set(videoId, {
+      this.updateSyncStatus({
         videoId,
         status: 'synced',
         localVideoPath,
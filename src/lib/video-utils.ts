@@ -1,5 +1,6 @@
-import { VideoGenerationResult } from '@/types';
+import { GenerationStageEstimate, VideoGenerationResult } from '@/types';
 import { VideoRecord } from './database';
+import { UI_CONFIG } from './constants';
 
 export const formatDuration = (seconds: number): string => {
   if (!seconds || isNaN(seconds)) return '0:00';
@@ -36,8 +37,17 @@ export const convertDatabaseRecordToResult = (record: VideoRecord): VideoGenerat
     duration: record.duration || undefined,
     resolution: record.resolution || undefined,
     error: record.error_message || undefined,
+    sourceImageUrl: record.source_image_url || undefined,
+    lastFrameImageUrl: record.last_frame_image_url || undefined,
+    parentVideoId: record.parent_video_id || undefined,
+    generationGroupId: record.generation_group_id || undefined,
+    generationConfig: record.generation_config || undefined,
     createdAt: new Date(record.created_at),
     completedAt: record.completed_at ? new Date(record.completed_at) : undefined,
+    translationStartedAt: record.translation_started_at ? new Date(record.translation_started_at) : undefined,
+    translationCompletedAt: record.translation_completed_at ? new Date(record.translation_completed_at) : undefined,
+    operationStartedAt: record.operation_started_at ? new Date(record.operation_started_at) : undefined,
+    processingStartedAt: record.processing_started_at ? new Date(record.processing_started_at) : undefined,
   };
 };
 
@@ -56,8 +66,17 @@ export const convertResultToDatabaseRecord = (
     duration: result.duration,
     resolution: result.resolution,
     error_message: result.error,
+    source_image_url: result.sourceImageUrl,
+    last_frame_image_url: result.lastFrameImageUrl,
+    parent_video_id: result.parentVideoId,
+    generation_group_id: result.generationGroupId,
+    generation_config: result.generationConfig,
     created_at: result.createdAt.toISOString(),
     completed_at: result.completedAt?.toISOString(),
+    translation_started_at: result.translationStartedAt?.toISOString(),
+    translation_completed_at: result.translationCompletedAt?.toISOString(),
+    operation_started_at: result.operationStartedAt?.toISOString(),
+    processing_started_at: result.processingStartedAt?.toISOString(),
   };
 };
 
@@ -146,6 +165,18 @@ export function isValidResolution(resolution: string | undefined | null): boolea
   return resolutionPattern.test(resolution);
 }
 
+/**
+ * 세로형(9:16) 비디오인지 확인
+ * 실제 해상도를 우선 사용하고, 아직 생성 중이면 요청한 화면비로 판단
+ */
+export function isPortraitVideo(result: VideoGenerationResult): boolean {
+  const match = result.resolution?.match(/^(\d+)x(\d+)$/);
+  if (match) {
+    return parseInt(match[2]) > parseInt(match[1]);
+  }
+  return result.generationConfig?.aspectRatio === '9:16';
+}
+
 /**
  * 해상도 값을 검증하고 유효한 값만 반환
  */
@@ -164,4 +195,70 @@ export function validateResolution(resolution: string | undefined | null, videoI
   return undefined;
 }
 
- 
\ No newline at end of file
+ 
+const GENERATION_STAGES = ['pending', 'translating', 'generating', 'processing'] as const;
+type GenerationStage = typeof GENERATION_STAGES[number];
+
+export interface GenerationProgress {
+  // 요청 후 경과 시간과 현재 단계의 경과 시간 (ms)
+  elapsedMs: number;
+  stageElapsedMs: number;
+  // 예상 남은 시간 (ms), 예상보다 오래 걸리면 0
+  remainingMs: number;
+  // 0-99 사이의 진행률
+  progress: number;
+}
+
+/**
+ * 단계별 시작 시각과 모델별 과거 소요 시간으로 진행률과 남은 시간 추정
+ * 진행 중인 상태가 아니면 null
+ */
+export function getGenerationProgress(
+  result: VideoGenerationResult,
+  estimate: GenerationStageEstimate | undefined,
+  now: number = Date.now()
+): GenerationProgress | null {
+  // 대기열에서 기다리는 시간은 대기 단계로 추정
+  const status = result.status === 'queued' ? 'pending' : result.status;
+  const stageIndex = GENERATION_STAGES.indexOf(status as GenerationStage);
+  if (stageIndex < 0) return null;
+
+  const createdAt = result.createdAt.getTime();
+  const stageStartedAt: Record<GenerationStage, number> = {
+    pending: createdAt,
+    translating: result.translationStartedAt?.getTime() ?? createdAt,
+    generating: (result.operationStartedAt ?? result.translationCompletedAt)?.getTime() ?? createdAt,
+    processing: result.processingStartedAt?.getTime() ?? createdAt
+  };
+  const expectedMs: Record<GenerationStage, number> = {
+    pending: (estimate?.pendingSeconds ?? UI_CONFIG.DEFAULT_STAGE_SECONDS.pending) * 1000,
+    translating: (estimate?.translatingSeconds ?? UI_CONFIG.DEFAULT_STAGE_SECONDS.translating) * 1000,
+    generating: (estimate?.generatingSeconds ?? UI_CONFIG.DEFAULT_STAGE_SECONDS.generating) * 1000,
+    processing: (estimate?.processingSeconds ?? UI_CONFIG.DEFAULT_STAGE_SECONDS.processing) * 1000
+  };
+
+  const stage = GENERATION_STAGES[stageIndex];
+  const stageElapsedMs = Math.max(0, now - stageStartedAt[stage]);
+  const doneMs = GENERATION_STAGES.slice(0, stageIndex).reduce((sum, s) => sum + expectedMs[s], 0);
+  const laterMs = GENERATION_STAGES.slice(stageIndex + 1).reduce((sum, s) => sum + expectedMs[s], 0);
+  const totalMs = doneMs + expectedMs[stage] + laterMs;
+  const currentMs = Math.min(stageElapsedMs, expectedMs[stage]);
+
+  return {
+    elapsedMs: Math.max(0, now - createdAt),
+    stageElapsedMs,
+    remainingMs: Math.max(0, expectedMs[stage] - stageElapsedMs) + laterMs,
+    progress: totalMs > 0 ? Math.min(99, Math.floor(((doneMs + currentMs) / totalMs) * 100)) : 0
+  };
+}
+
+/**
+ * 경과/남은 시간 표시용 (예: "1분 5초", "40초")
+ */
+export function formatElapsedTime(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds}초`;
+  return seconds === 0 ? `${minutes}분` : `${minutes}분 ${seconds}초`;
+}
@@ -1,7 +1,30 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { AUTH_CONFIG } from '@/lib/constants'
+import { isPublicPath, verifySessionToken } from '@/lib/session-token'
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+
+  // Load Balancer health check 처리
+  if (pathname === '/health') {
+    return new NextResponse('OK', { status: 200 })
+  }
+
+  // 세션 쿠키 확인 (정적 파일과 로그인 관련 경로 제외)
+  if (!pathname.startsWith('/_next/') && !isPublicPath(pathname)) {
+    const session = await verifySessionToken(request.cookies.get(AUTH_CONFIG.SESSION_COOKIE_NAME)?.value)
+
+    if (!session) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+      }
+      const loginUrl = new URL(AUTH_CONFIG.LOGIN_PATH, request.url)
+      loginUrl.searchParams.set('next', `${pathname}${search}`)
+      return NextResponse.redirect(loginUrl)
+    }
+  }
 
-export function middleware(request: NextRequest) {
   // Load Balancer에서 오는 요청 처리
   const response = NextResponse.next()
   
@@ -11,15 +34,10 @@ export function middleware(request: NextRequest) {
   response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization')
   
   // 정적 파일에 대한 캐시 설정
-  if (request.nextUrl.pathname.startsWith('/_next/static/')) {
+  if (pathname.startsWith('/_next/static/')) {
     response.headers.set('Cache-Control', 'public, max-age=31536000, immutable')
   }
   
-  // Load Balancer health check 처리
-  if (request.nextUrl.pathname === '/health') {
-    return new NextResponse('OK', { status: 200 })
-  }
-  
   return response
 }
 
@@ -27,13 +45,12 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
-     * - api (API routes)
-     * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * API routes are included so every request is checked for a session.
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!_next/static|_next/image|favicon.ico).*)',
     // 정적 파일도 포함하기 위해 추가
     '/_next/static/:path*',
   ],
-} 
\ No newline at end of file
+}
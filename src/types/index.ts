@@ -13,15 +13,124 @@ export interface VideoGenerationResult {
   koreanPrompt: string;
   englishPrompt: string;
   userEmail: string;
-  status: 'pending' | 'translating' | 'generating' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'queued' | 'translating' | 'generating' | 'processing' | 'completed' | 'error' | 'cancelled';
   videoUrl?: string;
   thumbnailUrl?: string;
   gcsUri?: string;
   duration?: number;
   resolution?: string;
   error?: string;
+  sourceImageUrl?: string;
+  lastFrameImageUrl?: string;
+  parentVideoId?: string;
+  generationGroupId?: string;
+  generationConfig?: AIModelConfig;
   createdAt: Date;
   completedAt?: Date;
+  translationStartedAt?: Date;
+  translationCompletedAt?: Date;
+  operationStartedAt?: Date;
+  processingStartedAt?: Date;
+}
+
+// 모델별 생성 단계 소요 시간 중앙값 (초, 기록이 없으면 null)
+export interface GenerationStageEstimate {
+  model: string;
+  pendingSeconds: number | null;
+  translatingSeconds: number | null;
+  generatingSeconds: number | null;
+  processingSeconds: number | null;
+  sampleCount: number;
+}
+
+// 생성 한도 (null이면 무제한)
+export interface GenerationQuotaLimits {
+  userDaily: number | null;
+  userMonthly: number | null;
+  globalMonthly: number | null;
+}
+
+export interface GenerationQuotaUsage {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  // 사용량이 초기화되는 시각 (UTC 기준 다음 날/다음 달 0시)
+  resetsAt: string;
+}
+
+// 사용자의 현재 생성 가능 횟수 (remaining은 세 한도 중 가장 적은 값, 무제한이면 null)
+export interface GenerationQuota {
+  daily: GenerationQuotaUsage;
+  monthly: GenerationQuotaUsage;
+  global: GenerationQuotaUsage;
+  remaining: number | null;
+}
+
+// 예상 비용 보고서 (USD, 기간은 UTC 날짜 기준 from 이상 to 미만)
+export interface SpendReport {
+  from: string;
+  to: string;
+  totalCostUsd: number;
+  daily: { day: string; videoCostUsd: number; translationCostUsd: number }[];
+  users: { userEmail: string; costUsd: number; videoCount: number; translationCount: number }[];
+  models: { model: string; kind: 'translation' | 'video'; costUsd: number; callCount: number }[];
+}
+
+// 기간별 생성 결과 (프롬프트 단위, successRate는 완료/(완료+오류) 비율이며 끝난 비디오가 없으면 null)
+export interface VideoOutcomeCounts {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  successRate: number | null;
+}
+
+// GET /api/videos/stats 응답 (전체 현황과 기간별 추이, 기간은 UTC 기준 from 이상 to 미만)
+export interface VideoStats {
+  totalVideos: number;
+  completedVideos: number;
+  errorVideos: number;
+  progressingVideos: {
+    pending: number;
+    queued: number;
+    translating: number;
+    generating: number;
+    processing: number;
+    total: number;
+  };
+  from: string;
+  to: string;
+  summary: VideoOutcomeCounts;
+  daily: (VideoOutcomeCounts & { day: string })[];
+  models: (VideoOutcomeCounts & { model: string; medianGenerationSeconds: number | null })[];
+  errorCategories: { category: string; label: string; count: number }[];
+}
+
+// 배치 가져오기 진행 상황 (프롬프트 단위 개수)
+export interface VideoBatch {
+  batchId: string;
+  userEmail: string;
+  total: number;
+  pending: number;
+  inProgress: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  createdAt: string;
+  lastCompletedAt?: string;
+}
+
+// 대기열 순번은 전체 대기열 기준 (1부터), 모델별 제한 때문에 실제 시작 순서는 달라질 수 있음
+export interface VideoQueueStatus {
+  positions: Record<string, number>;
+  queueLength: number;
+  // 관리자가 우선 처리로 지정한 비디오
+  expedited: string[];
+  active: { model: string; count: number }[];
+  limits: {
+    global: number;
+    perModel: Record<string, number>;
+  };
 }
 
 export interface VideoGenerationState {
@@ -56,14 +165,31 @@ export interface GenerationResponse {
   error?: string;
 }
 
-export interface VideoStats {
-  totalVideos: number;
-  completedVideos: number;
-  failedVideos: number;
-  generatingVideos: number;
+// AI Model Selection Types
+// viewer: 조회만 가능, creator: 비디오 생성 및 본인 비디오 관리, admin: 전체 관리
+export type UserRole = 'viewer' | 'creator' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'creator', 'admin'];
+
+export interface AuthUser {
+  id: number;
+  email: string;
+  name?: string;
+  role: UserRole;
+}
+
+// 재사용 가능한 한국어 프롬프트 ({{변수}}는 생성 요청 시 채움)
+export interface PromptTemplate {
+  id: number;
+  name: string;
+  content: string;
+  description?: string;
+  ownerEmail: string;
+  isShared: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
-// AI Model Selection Types
 export interface TranslationModel {
   id: string;
   name: string;
@@ -83,6 +209,8 @@ export interface VideoGenerationModel {
     supportsAudioGeneration: boolean;
     supportsVideoExtension: boolean;
     supportsLastFrame: boolean;
+    supportsImageToVideo: boolean;
+    maxNumberOfVideos: number;
     promptRewriter: {
       supported: boolean;
       canDisable: boolean;
@@ -98,6 +226,12 @@ export interface TranslationPromptConfig {
   userPromptTemplate: string;
 }
 
+// 업로드된 입력 이미지 (public/images 아래에 저장)
+export interface SourceImage {
+  url: string;
+  mimeType: string;
+}
+
 export interface AIModelConfig {
   translationModel: string;
   videoGenerationModel: string;
@@ -107,6 +241,10 @@ export interface AIModelConfig {
   generateAudio: boolean;
   negativePrompt: string;
   aspectRatio: string;
+  numberOfVideos: number;
+  seed?: number;
+  firstFrameImage?: SourceImage;
+  lastFrameImage?: SourceImage;
 }
 
 // Default configurations
@@ -133,6 +271,8 @@ export const DEFAULT_VIDEO_GENERATION_MODELS: VideoGenerationModel[] = [
       supportsAudioGeneration: false,
       supportsVideoExtension: true,
       supportsLastFrame: true,
+      supportsImageToVideo: true,
+      maxNumberOfVideos: 4,
       promptRewriter: {
         supported: true,
         canDisable: true,
@@ -151,6 +291,8 @@ export const DEFAULT_VIDEO_GENERATION_MODELS: VideoGenerationModel[] = [
       supportsAudioGeneration: true,
       supportsVideoExtension: false,
       supportsLastFrame: false,
+      supportsImageToVideo: false,
+      maxNumberOfVideos: 2,
       promptRewriter: {
         supported: true,
         canDisable: false,
@@ -175,5 +317,6 @@ export const DEFAULT_AI_MODEL_CONFIG: AIModelConfig = {
   enhancePrompt: true,
   generateAudio: false,
   negativePrompt: '',
-  aspectRatio: '16:9'
+  aspectRatio: '16:9',
+  numberOfVideos: 1
 }; 
\ No newline at end of file